@@ -1,5 +1,5 @@
 import { defineRoom } from "../src/verani";
-import type { ConnectionMeta } from "../src/verani";
+import type { ConnectionMeta, StandardSchemaV1 } from "../src/verani";
 
 /**
  * Extended metadata for chat room connections
@@ -9,6 +9,28 @@ interface ChatMeta extends ConnectionMeta {
   joinedAt: number;
 }
 
+/**
+ * Payload schema for chat messages.
+ * Written by hand to keep the example dependency-free; in practice pass a
+ * Zod, Valibot or ArkType schema, which all implement Standard Schema.
+ */
+const chatMessageSchema: StandardSchemaV1<unknown, { text: string }> = {
+  "~standard": {
+    version: 1,
+    vendor: "example",
+    validate(value) {
+      const text = (value as { text?: unknown })?.text;
+      if (typeof text !== "string" || text.trim().length === 0) {
+        return { issues: [{ message: "Expected a non-empty string", path: ["text"] }] };
+      }
+      if (text.length > 1000) {
+        return { issues: [{ message: "Message too long (max 1000 chars)", path: ["text"] }] };
+      }
+      return { value: { text: text.trim() } };
+    }
+  }
+};
+
 /**
  * Simple token validation (in production, use proper JWT verification)
  */
@@ -29,7 +51,7 @@ function validateToken(token: string): { userId: string; username: string } | nu
  * Chat Room Example
  *
  * Features:
- * - User authentication
+ * - User authentication (rejected before upgrade via authorize)
  * - Message broadcasting
  * - Typing indicators
  * - Online user list
@@ -39,15 +61,27 @@ export const chatRoom = defineRoom<ChatMeta>({
   name: "chat-example",
   websocketPath: "/ws/chat",
 
-  extractMeta(req) {
-    const url = new URL(req.url);
-    const token = url.searchParams.get("token");
+  // Reject bad tokens with a proper HTTP status before the WebSocket upgrade
+  authorize(req) {
+    const token = new URL(req.url).searchParams.get("token");
 
     if (!token) {
-      throw new Error("Authentication required");
+      return new Response("Authentication required", { status: 401 });
     }
 
-    const user = validateToken(token);
+    if (!validateToken(token)) {
+      return new Response("Invalid token", { status: 401 });
+    }
+
+    return true;
+  },
+
+  extractMeta(req) {
+    const url = new URL(req.url);
+    const token = url.searchParams.get("token");
+
+    // authorize() already rejected missing or invalid tokens
+    const user = validateToken(token ?? "");
     if (!user) {
       throw new Error("Invalid token");
     }
@@ -102,30 +136,17 @@ export const chatRoom = defineRoom<ChatMeta>({
 });
 
 // Register event handlers (socket.io-like)
-chatRoom.on("chat.message", (ctx, data) => {
-  const { text } = data;
-
-  // Validate message
-  if (!text || typeof text !== "string") {
-    ctx.emit.emit("error", { message: "Invalid message format" });
-    return;
-  }
-
-  if (text.length > 1000) {
-    ctx.emit.emit("error", { message: "Message too long (max 1000 chars)" });
-    return;
-  }
-
-  // Sanitize and broadcast using emit API
-  const sanitized = text.trim();
+// Invalid payloads are rejected with a VALIDATION_FAILED error frame before the handler runs
+chatRoom.on("chat.message", { schema: chatMessageSchema }, (ctx, data) => {
+  // data is the schema's parsed output: { text: string }, already trimmed
   ctx.actor.emit.to("default").emit("chat.message", {
     from: ctx.meta.userId,
     username: ctx.meta.username,
-    text: sanitized,
+    text: data.text,
     timestamp: Date.now()
   });
 
-  console.log(`[Chat] ${ctx.meta.username}: ${sanitized}`);
+  console.log(`[Chat] ${ctx.meta.username}: ${data.text}`);
 });
 
 chatRoom.on("chat.typing", (ctx, data) => {
@@ -1,5 +1,5 @@
 import { Actor, ActorConfiguration } from "@cloudflare/actors";
-import type { RoomDefinition, BroadcastOptions, ConnectionMeta, ActorStub } from "./types";
+import type { RoomDefinition, BroadcastOptions, ConnectionMeta, ActorStub, SendToUserOptions, MessageFrame, VeraniAlarmPayload, ScheduledEmit, ScheduleTarget, BanEntry, BanOptions, ActorEmit, ActorPresence, RoomState } from "./types";
 import { cleanupStaleSessions as cleanupStaleSessionsImpl } from "./runtime/cleanupStaleSessions";
 import { broadcast as broadcastImpl } from "./runtime/broadcast";
 import { sendToUser as sendToUserImpl } from "./runtime/sendToUser";
@@ -10,9 +10,19 @@ import { onInit as onInitImpl } from "./runtime/onInit";
 import { onWebSocketConnect as onWebSocketConnectImpl } from "./runtime/onWebSocketConnect";
 import { onWebSocketMessage as onWebSocketMessageImpl } from "./runtime/onWebSocketMessage";
 import { onWebSocketDisconnect as onWebSocketDisconnectImpl } from "./runtime/onWebSocketDisconnect";
+import { handleAlarm } from "./runtime/alarms";
+import { scheduleEmit, listScheduledEmits, cancelScheduledEmit } from "./runtime/schedule";
+import { disconnectUser as disconnectUserImpl, disconnectClient as disconnectClientImpl, banUser as banUserImpl, unbanUser as unbanUserImpl, listBans as listBansImpl } from "./runtime/moderation";
 import { createActorEmit } from "./runtime/emit";
+import { createActorPresence } from "./runtime/presence";
+import { createActorState } from "./runtime/state";
 import { createFetch, type ActorInstanceWithFetchMethods } from "./runtime/fetch";
+import { getChannelHistory } from "./runtime/history";
+import { queueInboxFrame } from "./runtime/inbox";
+import { getTelemetry } from "./runtime/telemetry";
 import { encodeFrame } from "./protocol";
+import { jsonCodec, type Codec } from "../shared/codec";
+import { silentLogger, type Logger } from "../shared/logger";
 
 /**
  * Return type for createActorHandler - represents an Actor class constructor
@@ -23,21 +33,47 @@ export type ActorHandlerClass<E = unknown> = {
 	configuration(request?: Request): ActorConfiguration;
 };
 
+/**
+ * Options for createActorHandler
+ */
+export interface ActorHandlerOptions {
+	/**
+	 * Wire format for all frames (default: JSON).
+	 * Clients must be created with the same codec.
+	 */
+	codec?: Codec;
+	/**
+	 * Logger for the runtime (default: silent).
+	 * Entries carry the room name, and the userId, clientId and connectionId of the session they concern.
+	 */
+	logger?: Logger;
+}
+
 /**
  * Creates an Actor handler from a room definition
  * @param room - The room definition with lifecycle hooks
+ * @param options - Handler options (wire codec, logger)
  * @returns Actor class for Cloudflare Workers (extends DurableObject)
  */
 export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown>(
-	room: RoomDefinition<TMeta, E>
+	room: RoomDefinition<TMeta, E>,
+	options: ActorHandlerOptions = {}
 ): ActorHandlerClass<E> {
+	const handlerCodec = options.codec ?? jsonCodec;
+	const handlerLogger = (options.logger ?? silentLogger).child({ roomName: room.name ?? room.websocketPath });
+
 	// Determine class name with priority: room.name > room.websocketPath > "VeraniActor"
 	const className = sanitizeToClassName(room.name || room.websocketPath || "VeraniActor");
 
 	// Create named class dynamically
 	class NamedActorClass extends Actor<E> {
 		sessions = new Map<WebSocket, { ws: WebSocket; meta: TMeta }>();
-		emit = createActorEmit<TMeta, E>(this as any);
+		codec: Codec = handlerCodec;
+		logger: Logger = handlerLogger;
+		private closeCodes = new WeakMap<WebSocket, number>();
+		emit: ActorEmit<TMeta, E> = createActorEmit<TMeta, E>(this);
+		presence: ActorPresence = createActorPresence<TMeta, E>(this);
+		state: RoomState = createActorState<TMeta, E>(this, room);
 
 		/**
 		 * Static configuration method for Cloudflare Actors
@@ -76,11 +112,26 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 		await onWebSocketMessageImpl(this, room, ws, raw);
 	}
 
+	/**
+	 * Records the close code, which onWebSocketDisconnect does not receive
+	 */
+	async webSocketClose(ws: WebSocket, code: number) {
+		this.closeCodes.set(ws, code);
+		await super.webSocketClose(ws, code);
+	}
+
 	/**
 	 * Called when a WebSocket connection is closed
 	 */
 	protected async onWebSocketDisconnect(ws: WebSocket) {
-		await onWebSocketDisconnectImpl(this, room, ws);
+		await onWebSocketDisconnectImpl(this, room, ws, this.closeCodes.get(ws));
+	}
+
+	/**
+	 * Called by the alarms scheduler when a runtime timer fires
+	 */
+	async onVeraniAlarm(payload: VeraniAlarmPayload) {
+		await handleAlarm(this, room, payload);
 	}
 
 	/**
@@ -89,7 +140,7 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 	 * @returns Number of sessions cleaned up
 	 */
 	cleanupStaleSessions(): number {
-		return cleanupStaleSessionsImpl(this.sessions);
+		return cleanupStaleSessionsImpl(this.sessions, this.logger);
 	}
 
 	/**
@@ -101,7 +152,7 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 	 * @returns Number of connections that received the message
 	 */
 	broadcast(channel: string, data: any, opts?: BroadcastOptions): number {
-		return broadcastImpl(this.sessions, channel, data, opts);
+		return broadcastImpl(this.sessions, channel, data, opts, getChannelHistory(this), this.codec, this.logger, getTelemetry(this));
 	}
 
 	/**
@@ -135,10 +186,15 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 	 * @param userId - The user ID to send to
 	 * @param channel - The channel to send to
 	 * @param data - Message data
+	 * @param opts - Send options (`persistIfOffline` queues the message if the user has no open session)
 	 * @returns Number of sessions that received the message
 	 */
-	sendToUser(userId: string, channel: string, data?: any): number {
-		return sendToUserImpl(this.sessions, userId, channel, data);
+	sendToUser(userId: string, channel: string, data?: any, opts?: SendToUserOptions): number {
+		const sentCount = sendToUserImpl(this.sessions, userId, channel, data, this.codec, this.logger, getTelemetry(this));
+		if (opts?.persistIfOffline && getUserSessionsImpl(this.sessions, userId).length === 0) {
+			queueInboxFrame(this.getStorage(), room.inbox, userId, { type: "event", channel, data }, channel, this.logger);
+		}
+		return sentCount;
 	}
 
 	/**
@@ -159,7 +215,7 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 	 */
 	emitToChannel(channel: string, event: string, data?: any): number {
 		const eventData = { type: event, ...data };
-		return broadcastImpl(this.sessions, channel, eventData);
+		return broadcastImpl(this.sessions, channel, eventData, undefined, getChannelHistory(this), this.codec, this.logger, getTelemetry(this));
 	}
 
 	/**
@@ -169,20 +225,22 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 	 * @param userId - User ID
 	 * @param event - Event name
 	 * @param data - Event data
+	 * @param opts - Send options (`persistIfOffline` queues the event if the user has no open session)
 	 * @returns Number of sessions that received the message
 	 * @example
 	 * ```typescript
 	 * // Direct call (inside lifecycle hooks)
 	 * const sent = actor.emitToUser("alice", "notification", { message: "Hello!" });
 	 *
-	 * // RPC call (from Worker)
-	 * const sent = await stub.emitToUser("alice", "notification", { message: "Hello!" });
+	 * // RPC call (from Worker), delivered on next connect if alice is offline
+	 * const sent = await stub.emitToUser("alice", "notification", { message: "Hello!" }, { persistIfOffline: true });
 	 * ```
 	 */
-	emitToUser(userId: string, event: string, data?: any): number {
+	emitToUser(userId: string, event: string, data?: any, opts?: SendToUserOptions): number {
+		const startTime = Date.now();
 		const eventData = { type: event, ...data };
-		const frame = { type: "event" as const, channel: "default", data: eventData };
-		const encoded = encodeFrame(frame);
+		const frame: MessageFrame = { type: "event", channel: "default", data: eventData };
+		const encoded = encodeFrame(frame, this.codec);
 
 		let sentCount = 0;
 		const failedSessions: WebSocket[] = [];
@@ -199,7 +257,7 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 					ws.send(encoded);
 					sentCount++;
 				} catch (error) {
-					console.error("[Verani] Failed to send to user:", error);
+					this.logger.error("[Verani] Failed to send to user:", error, { userId });
 					failedSessions.push(ws);
 				}
 			}
@@ -209,10 +267,115 @@ export function createActorHandler<TMeta extends ConnectionMeta = ConnectionMeta
 		for (const ws of failedSessions) {
 			this.sessions.delete(ws);
 		}
+		getTelemetry(this)?.broadcast({ startTime, channel: "default", userId, recipients: sentCount, failures: failedSessions.length });
+
+		// Keep the event for the user's next connection if they have none open
+		if (opts?.persistIfOffline && getUserSessionsImpl(this.sessions, userId).length === 0) {
+			queueInboxFrame(this.getStorage(), room.inbox, userId, frame, undefined, this.logger);
+		}
 
 		return sentCount;
 	}
 
+	/**
+	 * Schedules an event to be emitted later. Survives hibernation.
+	 * Available via RPC.
+	 * @param when - Date to emit at, or delay in milliseconds
+	 * @param event - Event name
+	 * @param data - Event data
+	 * @param target - `{ channel }` or `{ userId, persistIfOffline? }` (default: the "default" channel)
+	 * @returns The scheduled job
+	 * @example
+	 * ```typescript
+	 * // Close the poll in 5 minutes
+	 * const job = await ctx.actor.schedule(5 * 60_000, "poll.closed", { pollId }, { channel: "poll" });
+	 *
+	 * // Changed our mind
+	 * await ctx.actor.cancelScheduled(job.id);
+	 * ```
+	 */
+	schedule(when: Date | number, event: string, data?: any, target?: ScheduleTarget): Promise<ScheduledEmit> {
+		return scheduleEmit(this, when, event, data, target);
+	}
+
+	/**
+	 * Lists pending scheduled events, soonest first.
+	 * Available via RPC.
+	 */
+	listScheduled(): Promise<ScheduledEmit[]> {
+		return listScheduledEmits(this);
+	}
+
+	/**
+	 * Cancels a scheduled event.
+	 * Available via RPC.
+	 * @param id - Job id returned by schedule()
+	 * @returns true if the job was pending
+	 */
+	cancelScheduled(id: string): Promise<boolean> {
+		return cancelScheduledEmit(this, id);
+	}
+
+	/**
+	 * Closes all sessions of a user and ends them right away: onDisconnect runs
+	 * and the sessions cannot be resumed. The user may connect again; see banUser().
+	 * Available via RPC.
+	 * @param userId - User to disconnect
+	 * @param reason - Close reason sent to the client
+	 * @param code - Close code (default: CloseCodes.KICKED)
+	 * @returns Number of connections closed
+	 * @example
+	 * ```typescript
+	 * room.on("mod.kick", async (ctx, { userId }) => {
+	 *   await ctx.actor.disconnectUser(userId, "Kicked by moderator");
+	 * });
+	 * ```
+	 */
+	disconnectUser(userId: string, reason?: string, code?: number): Promise<number> {
+		return disconnectUserImpl(this, room, userId, reason, code);
+	}
+
+	/**
+	 * Closes a single connection like disconnectUser() does.
+	 * Available via RPC.
+	 * @param clientId - Client to disconnect
+	 * @param reason - Close reason sent to the client
+	 * @param code - Close code (default: CloseCodes.KICKED)
+	 * @returns true if the client was connected
+	 */
+	disconnectClient(clientId: string, reason?: string, code?: number): Promise<boolean> {
+		return disconnectClientImpl(this, room, clientId, reason, code);
+	}
+
+	/**
+	 * Bans a user: the ban is persisted and checked whenever they connect,
+	 * and their sessions are closed with CloseCodes.BANNED.
+	 * Available via RPC.
+	 * @param userId - User to ban
+	 * @param opts - Close reason and duration (default: until unbanUser())
+	 * @returns Number of connections closed
+	 */
+	banUser(userId: string, opts?: BanOptions): Promise<number> {
+		return banUserImpl(this, room, userId, opts);
+	}
+
+	/**
+	 * Lifts a ban.
+	 * Available via RPC.
+	 * @returns true if the user was banned
+	 */
+	unbanUser(userId: string): Promise<boolean> {
+		return unbanUserImpl(this, userId);
+	}
+
+	/**
+	 * Lists active bans, oldest first.
+	 * Available via RPC.
+	 */
+	listBans(): Promise<BanEntry[]> {
+		return listBansImpl(this);
+	}
+
 	/**
 	 * Gets the Durable Object storage interface
 	 * @returns DurableObjectStorage instance
@@ -1,78 +1,166 @@
 import type { ConnectionMeta } from "./types";
+import { silentLogger, type Logger } from "../shared/logger";
 
 /**
  * Validates that a ConnectionMeta object has all required fields
  * @param meta - The metadata to validate
+ * @param logger - Logger told which field is invalid
  * @returns true if valid, false otherwise
  */
-export function isValidConnectionMeta(meta: any): meta is ConnectionMeta {
+export function isValidConnectionMeta(meta: any, logger: Logger = silentLogger): meta is ConnectionMeta {
   if (!meta || typeof meta !== 'object') {
     return false;
   }
 
   // Check required fields
   if (typeof meta.userId !== 'string' || !meta.userId) {
-    console.debug("[Verani:Attachment] Invalid userId:", meta.userId);
+    logger.debug("[Verani:Attachment] Invalid userId:", meta.userId);
     return false;
   }
 
   if (typeof meta.clientId !== 'string' || !meta.clientId) {
-    console.debug("[Verani:Attachment] Invalid clientId:", meta.clientId);
+    logger.debug("[Verani:Attachment] Invalid clientId:", meta.clientId);
     return false;
   }
 
   if (!Array.isArray(meta.channels)) {
-    console.debug("[Verani:Attachment] Invalid channels (not an array):", meta.channels);
+    logger.debug("[Verani:Attachment] Invalid channels (not an array):", meta.channels);
     return false;
   }
 
   // Validate channels array contains only strings
   if (!meta.channels.every((ch: any) => typeof ch === 'string')) {
-    console.debug("[Verani:Attachment] Invalid channels (contains non-string):", meta.channels);
+    logger.debug("[Verani:Attachment] Invalid channels (contains non-string):", meta.channels);
     return false;
   }
 
   return true;
 }
 
+/**
+ * What Verani keeps in a WebSocket attachment
+ */
+export interface SessionAttachment<TMeta extends ConnectionMeta = ConnectionMeta> {
+  meta: TMeta;
+  /** Last time a frame was received on this connection (ms since epoch) */
+  lastActivity: number;
+  /** Random id of this WebSocket, used in logs */
+  connectionId: string;
+}
+
+/**
+ * Attachments are rewritten at most this often when only the activity time changes
+ */
+const ACTIVITY_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * In-memory copy of each connection's attachment fields: precise last activity,
+ * when it was last written to the attachment, and the connection id
+ */
+const connections = new WeakMap<WebSocket, { at: number; storedAt: number; connectionId: string }>();
+
+/**
+ * Reads a WebSocket attachment. Attachments written by older versions hold the meta alone.
+ */
+export function readAttachment(ws: WebSocket): SessionAttachment | undefined {
+  const attachment = ws.deserializeAttachment();
+  if (!attachment || typeof attachment !== 'object') {
+    return undefined;
+  }
+  if ('meta' in attachment && typeof attachment.lastActivity === 'number') {
+    return {
+      meta: attachment.meta,
+      lastActivity: attachment.lastActivity,
+      connectionId: attachment.connectionId ?? crypto.randomUUID()
+    };
+  }
+  return { meta: attachment as ConnectionMeta, lastActivity: Date.now(), connectionId: crypto.randomUUID() };
+}
+
+function getConnectionEntry(ws: WebSocket): { at: number; storedAt: number; connectionId: string } {
+  let entry = connections.get(ws);
+  if (!entry) {
+    const attachment = readAttachment(ws);
+    const at = attachment?.lastActivity ?? Date.now();
+    entry = { at, storedAt: at, connectionId: attachment?.connectionId ?? crypto.randomUUID() };
+    connections.set(ws, entry);
+  }
+  return entry;
+}
+
 // Get the cloudflare actor's WebSocket attachment
-export function storeAttachment(ws: WebSocket, meta: ConnectionMeta) {
-  console.debug("[Verani:Attachment][storeAttachment] Storing attachment:", { userId: meta.userId, clientId: meta.clientId, channels: meta.channels });
-  ws.serializeAttachment(meta);
+export function storeAttachment(ws: WebSocket, meta: ConnectionMeta, logger: Logger = silentLogger) {
+  logger.debug("[Verani:Attachment][storeAttachment] Storing attachment:", { userId: meta.userId, clientId: meta.clientId, channels: meta.channels });
+  const entry = getConnectionEntry(ws);
+  const attachment: SessionAttachment = { meta, lastActivity: entry.at, connectionId: entry.connectionId };
+  ws.serializeAttachment(attachment);
+  entry.storedAt = entry.at;
+}
+
+/**
+ * Records that a frame was received on a connection.
+ * The attachment is only rewritten if the stored time is over a second old.
+ */
+export function recordActivity(ws: WebSocket, meta: ConnectionMeta, now = Date.now()) {
+  const entry = getConnectionEntry(ws);
+  entry.at = now;
+  if (now - entry.storedAt < ACTIVITY_WRITE_INTERVAL_MS) {
+    return;
+  }
+
+  const attachment: SessionAttachment = { meta, lastActivity: now, connectionId: entry.connectionId };
+  ws.serializeAttachment(attachment);
+  entry.storedAt = now;
+}
+
+/**
+ * Gets the last time a frame was received on a connection, surviving hibernation
+ * (up to a second early after a wake-up)
+ */
+export function getLastActivity(ws: WebSocket): number | undefined {
+  return connections.get(ws)?.at ?? readAttachment(ws)?.lastActivity;
+}
+
+/**
+ * Gets the id of a connection, stable for the lifetime of the WebSocket
+ */
+export function getConnectionId(ws: WebSocket): string {
+  return getConnectionEntry(ws).connectionId;
 }
 
 export function restoreSessions(actor: any) {
-  console.debug("[Verani:Attachment][restoreSessions] Restoring sessions from hibernation");
+  const logger: Logger = actor.logger ?? silentLogger;
+  logger.debug("[Verani:Attachment][restoreSessions] Restoring sessions from hibernation");
   let restoredCount = 0;
   let skippedCount = 0;
 
   for (const ws of actor.ctx.getWebSockets()) {
     // Check if WebSocket is in OPEN state
     if (ws.readyState !== WebSocket.OPEN) {
-      console.debug("[Verani:Attachment][restoreSessions] WebSocket not in OPEN state, skipping. State:", ws.readyState);
+      logger.debug("[Verani:Attachment][restoreSessions] WebSocket not in OPEN state, skipping. State:", ws.readyState);
       skippedCount++;
       continue;
     }
 
     // Deserialize and validate attachment
-    const meta = ws.deserializeAttachment() as ConnectionMeta | undefined;
+    const meta = readAttachment(ws)?.meta;
     if (!meta) {
-      console.debug("[Verani:Attachment][restoreSessions] WebSocket has no attachment, skipping");
+      logger.debug("[Verani:Attachment][restoreSessions] WebSocket has no attachment, skipping");
       skippedCount++;
       continue;
     }
 
     // Validate metadata structure
-    if (!isValidConnectionMeta(meta)) {
-      console.warn("[Verani:Attachment][restoreSessions] Invalid metadata structure, skipping session");
+    if (!isValidConnectionMeta(meta, logger)) {
+      logger.warn("[Verani:Attachment][restoreSessions] Invalid metadata structure, skipping session");
       skippedCount++;
       continue;
     }
 
-    console.debug("[Verani:Attachment][restoreSessions] Restored session:", { userId: meta.userId, clientId: meta.clientId });
+    logger.debug("[Verani:Attachment][restoreSessions] Restored session:", { userId: meta.userId, clientId: meta.clientId });
     actor.sessions.set(ws, { ws, meta });
     restoredCount++;
   }
 
-  console.debug("[Verani:Attachment][restoreSessions] Restored", restoredCount, "sessions,", skippedCount, "skipped");
+  logger.debug("[Verani:Attachment][restoreSessions] Restored", restoredCount, "sessions,", skippedCount, "skipped");
 }
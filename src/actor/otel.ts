@@ -0,0 +1,157 @@
+import type { RoomTelemetry, TelemetryRecord } from "./types";
+
+/**
+ * Span attribute values accepted by OpenTelemetry
+ */
+export type OtelAttributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * The parts of an OpenTelemetry `Span` used by Verani
+ */
+export interface OtelSpan {
+  recordException(exception: any): void;
+  setStatus(status: { code: number; message?: string }): void;
+  end(endTime?: number): void;
+}
+
+/**
+ * The parts of an OpenTelemetry `Tracer` used by Verani.
+ * `trace.getTracer("verani")` from `@opentelemetry/api` fits.
+ */
+export interface OtelTracer {
+  startSpan(name: string, options?: { startTime?: number; attributes?: OtelAttributes }): OtelSpan;
+}
+
+/**
+ * The parts of an OpenTelemetry `Meter` used by Verani.
+ * `metrics.getMeter("verani")` from `@opentelemetry/api` fits.
+ */
+export interface OtelMeter {
+  createCounter(name: string, options?: { description?: string; unit?: string }): {
+    add(value: number, attributes?: OtelAttributes): void;
+  };
+  createHistogram(name: string, options?: { description?: string; unit?: string }): {
+    record(value: number, attributes?: OtelAttributes): void;
+  };
+}
+
+/**
+ * Options of createOpenTelemetry
+ */
+export interface OpenTelemetryOptions {
+  /** Tracer receiving one span per operation; no spans without it */
+  tracer?: OtelTracer;
+  /** Meter receiving counters and histograms; no metrics without it */
+  meter?: OtelMeter;
+}
+
+/**
+ * `SpanStatusCode.ERROR` of `@opentelemetry/api`
+ */
+const SPAN_STATUS_ERROR = 2;
+
+/**
+ * Creates room telemetry hooks that emit OpenTelemetry spans and metrics.
+ * Spans are named `verani.<operation>` and start and end at the times the operation did.
+ *
+ * Metrics:
+ * - `verani.connections`, `verani.disconnections`, `verani.events`, `verani.broadcasts`, `verani.restores` (counters)
+ * - `verani.event.duration` (histogram, ms)
+ * - `verani.broadcast.recipients` and `verani.broadcast.failures` (histogram and counter)
+ * - `verani.restore.sessions` (histogram)
+ *
+ * Every metric carries `verani.room`; failed operations carry `error: true`.
+ * @example
+ * ```typescript
+ * import { trace, metrics } from "@opentelemetry/api";
+ *
+ * const chatRoom = defineRoom({
+ *   telemetry: createOpenTelemetry({ tracer: trace.getTracer("verani"), meter: metrics.getMeter("verani") })
+ * });
+ * ```
+ */
+export function createOpenTelemetry(options: OpenTelemetryOptions): RoomTelemetry {
+  const { tracer, meter } = options;
+
+  const connections = meter?.createCounter("verani.connections", { description: "Connections accepted or failed" });
+  const disconnections = meter?.createCounter("verani.disconnections", { description: "Connections closed" });
+  const events = meter?.createCounter("verani.events", { description: "Client events dispatched" });
+  const eventDuration = meter?.createHistogram("verani.event.duration", { description: "Time spent handling client events", unit: "ms" });
+  const broadcasts = meter?.createCounter("verani.broadcasts", { description: "Frames fanned out to a channel or user" });
+  const recipients = meter?.createHistogram("verani.broadcast.recipients", { description: "Sessions reached per broadcast" });
+  const failures = meter?.createCounter("verani.broadcast.failures", { description: "Sessions dropped because a send failed" });
+  const restores = meter?.createCounter("verani.restores", { description: "Wake-ups from hibernation" });
+  const restoredSessions = meter?.createHistogram("verani.restore.sessions", { description: "Sessions restored per wake-up" });
+
+  const span = (name: string, record: TelemetryRecord, attributes: OtelAttributes): void => {
+    if (!tracer) {
+      return;
+    }
+    const s = tracer.startSpan(name, { startTime: record.startTime, attributes: { "verani.room": record.roomName, ...attributes } });
+    if (record.error !== undefined) {
+      s.recordException(record.error);
+      s.setStatus({ code: SPAN_STATUS_ERROR, message: record.error instanceof Error ? record.error.message : String(record.error) });
+    }
+    s.end(record.startTime + record.durationMs);
+  };
+
+  const metricAttributes = (record: TelemetryRecord, attributes: OtelAttributes = {}): OtelAttributes => ({
+    "verani.room": record.roomName,
+    ...(record.error !== undefined ? { error: true } : {}),
+    ...attributes
+  });
+
+  return {
+    connect(record) {
+      span("verani.connect", record, {
+        "verani.user_id": record.userId,
+        "verani.client_id": record.clientId,
+        "verani.resumed": record.resumed
+      });
+      connections?.add(1, metricAttributes(record, { "verani.resumed": record.resumed }));
+    },
+
+    disconnect(record) {
+      span("verani.disconnect", record, {
+        "verani.user_id": record.userId,
+        "verani.client_id": record.clientId,
+        "verani.close_code": record.code
+      });
+      disconnections?.add(1, metricAttributes(record, { "verani.close_code": record.code }));
+    },
+
+    event(record) {
+      span("verani.event", record, {
+        "verani.event": record.event,
+        "verani.channel": record.channel,
+        "verani.user_id": record.userId,
+        "verani.client_id": record.clientId
+      });
+      const attributes = metricAttributes(record, { "verani.event": record.event });
+      events?.add(1, attributes);
+      eventDuration?.record(record.durationMs, attributes);
+    },
+
+    broadcast(record) {
+      span("verani.broadcast", record, {
+        "verani.channel": record.channel,
+        "verani.user_id": record.userId,
+        "verani.recipients": record.recipients,
+        "verani.failures": record.failures
+      });
+      const attributes = metricAttributes(record, { "verani.channel": record.channel });
+      broadcasts?.add(1, attributes);
+      recipients?.record(record.recipients, attributes);
+      if (record.failures > 0) {
+        failures?.add(record.failures, attributes);
+      }
+    },
+
+    restore(record) {
+      span("verani.restore", record, { "verani.sessions": record.sessions });
+      const attributes = metricAttributes(record);
+      restores?.add(1, attributes);
+      restoredSessions?.record(record.sessions, attributes);
+    }
+  };
+}
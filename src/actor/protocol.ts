@@ -6,22 +6,18 @@
 import { decodeFrame as sharedDecodeFrame, decodeClientMessage } from "../shared/decode";
 import { encodeFrame as sharedEncodeFrame, encodeServerMessage } from "../shared/encode";
 import type { MessageFrame } from "../shared/types";
+import { jsonCodec, type Codec } from "../shared/codec";
 
 export type { MessageFrame };
 
 /**
  * Decodes a frame received from a client
  * @param raw - Raw WebSocket message data
+ * @param codec - Wire format of the actor (default: JSON)
  * @returns Decoded MessageFrame or a fallback invalid frame
  */
-export function decodeFrame(raw: any): MessageFrame {
-  console.debug("[Verani:Protocol:Actor] Decoding frame, raw length:", typeof raw === "string" ? raw.length : "unknown");
-  const decoded = sharedDecodeFrame(raw);
-  if (decoded) {
-    console.debug("[Verani:Protocol:Actor] Decoded successfully:", { type: decoded.type, channel: decoded.channel });
-  } else {
-    console.debug("[Verani:Protocol:Actor] Decode failed, returning invalid frame");
-  }
+export function decodeFrame(raw: any, codec: Codec = jsonCodec): MessageFrame {
+  const decoded = sharedDecodeFrame(raw, codec);
   // Return invalid frame as fallback for backward compatibility
   return decoded ?? { type: "invalid" };
 }
@@ -29,13 +25,11 @@ export function decodeFrame(raw: any): MessageFrame {
 /**
  * Encodes a frame to send to a client
  * @param frame - MessageFrame to encode
- * @returns JSON string representation
+ * @param codec - Wire format of the actor (default: JSON)
+ * @returns Encoded frame, ready for `ws.send()`
  */
-export function encodeFrame(frame: MessageFrame): string {
-  console.debug("[Verani:Protocol:Actor] Encoding frame:", { type: frame.type, channel: frame.channel });
-  const encoded = sharedEncodeFrame(frame);
-  console.debug("[Verani:Protocol:Actor] Encoded length:", encoded.length);
-  return encoded;
+export function encodeFrame(frame: MessageFrame, codec: Codec = jsonCodec): string | Uint8Array {
+  return sharedEncodeFrame(frame, codec);
 }
 
 // Re-export shared utilities
@@ -1,4 +1,13 @@
-import type { RoomDefinition, ConnectionMeta, EventHandler } from "./types";
+import type {
+  RoomDefinition,
+  ConnectionMeta,
+  EventHandler,
+  EventHandlerOptions,
+  EventMap,
+  InferSchemaOutput,
+  Middleware,
+  StandardSchemaV1
+} from "./types";
 import { createRoomEventEmitter } from "./runtime/eventEmitter";
 
 
@@ -8,10 +17,8 @@ import { createRoomEventEmitter } from "./runtime/eventEmitter";
  * @returns Connection metadata with userId, clientId, and default channels
  */
 function defaultExtractMeta(req: Request): ConnectionMeta {
-  console.debug("[Verani:Router] Extracting metadata from request:", req.url);
   const userId = crypto.randomUUID();
   const clientId = crypto.randomUUID();
-  console.debug("[Verani:Router] Extracted userId:", userId, "clientId:", clientId);
 
   // Extract initial channels from query parameters
   const url = new URL(req.url);
@@ -19,7 +26,6 @@ function defaultExtractMeta(req: Request): ConnectionMeta {
   const channels = channelsParam
     ? channelsParam.split(",").map(c => c.trim()).filter(Boolean)
     : ["default"];
-  console.debug("[Verani:Router] Extracted channels:", channels);
 
   return {
     userId,
@@ -31,51 +37,137 @@ function defaultExtractMeta(req: Request): ConnectionMeta {
 /**
  * Extended room definition with socket.io-like convenience methods
  */
-export interface RoomDefinitionWithHandlers<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown>
-  extends RoomDefinition<TMeta, E> {
+export interface RoomDefinitionWithHandlers<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TClientEvents extends EventMap = EventMap,
+  TServerEvents extends EventMap = EventMap
+> extends RoomDefinition<TMeta, E, TClientEvents, TServerEvents> {
   /**
    * Register an event handler (socket.io-like API)
-   * @param event - Event name
+   * @param event - Event name, checked against `TClientEvents`
+   * @param handler - Handler function receiving the event's payload type
+   */
+  on<K extends keyof TClientEvents & string>(
+    event: K,
+    handler: EventHandler<TMeta, E, TClientEvents[K], TServerEvents>
+  ): void;
+  /**
+   * Register an event handler whose payload is validated first (socket.io-like API)
+   * @param event - Event name, checked against `TClientEvents`
+   * @param options - Handler options; `schema` is any Standard Schema compatible validator
+   * @param handler - Handler function receiving the validator's parsed output
+   */
+  on<K extends keyof TClientEvents & string, TSchema extends StandardSchemaV1<any, TClientEvents[K]>>(
+    event: K,
+    options: EventHandlerOptions<TSchema>,
+    handler: EventHandler<TMeta, E, InferSchemaOutput<TSchema>, TServerEvents>
+  ): void;
+  /**
+   * Register a wildcard handler called for every event
+   * @param event - `"*"`
    * @param handler - Handler function
    */
-  on(event: string, handler: EventHandler<TMeta, E>): void;
+  on(event: "*", handler: EventHandler<TMeta, E, TClientEvents[keyof TClientEvents], TServerEvents>): void;
 
   /**
    * Remove an event handler (socket.io-like API)
    * @param event - Event name
    * @param handler - Optional specific handler to remove
    */
-  off(event: string, handler?: EventHandler<TMeta, E>): void;
+  off<K extends keyof TClientEvents & string>(
+    event: K | "*",
+    handler?: EventHandler<TMeta, E, any, TServerEvents>
+  ): void;
+
+  /**
+   * Register middleware that wraps every dispatched event (Koa-style)
+   * Middleware runs in registration order, after payload framing and before
+   * event handlers or the onMessage hook.
+   * @param middleware - Middleware function receiving the context and `next`
+   */
+  use(middleware: Middleware<TMeta, E, TServerEvents>): void;
 }
 
 /**
  * Defines a room with lifecycle hooks and metadata extraction
  * @param def - Room definition with optional hooks
  * @returns Normalized room definition with defaults and socket.io-like event handler methods
+ * @typeParam TClientEvents - Event map of client-to-server events accepted by `room.on()`
+ * @typeParam TServerEvents - Event map of server-to-client events accepted by the emit APIs
+ * @example
+ * ```typescript
+ * interface ClientEvents { "chat.message": { text: string } }
+ * interface ServerEvents { "chat.message": { from: string; text: string } }
+ *
+ * const room = defineRoom<ConnectionMeta, Env, ClientEvents, ServerEvents>({ websocketPath: "/ws" });
+ * room.on("chat.message", (ctx, data) => {
+ *   ctx.emit.to("default").emit("chat.message", { from: ctx.meta.userId, text: data.text });
+ * });
+ * ```
  */
-export function defineRoom<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown>(
-  def: RoomDefinition<TMeta, E>
-): RoomDefinitionWithHandlers<TMeta, E> {
+export function defineRoom<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TClientEvents extends EventMap = EventMap,
+  TServerEvents extends EventMap = EventMap
+>(
+  def: RoomDefinition<TMeta, E, TClientEvents, TServerEvents>
+): RoomDefinitionWithHandlers<TMeta, E, TClientEvents, TServerEvents> {
   // Create default event emitter if not provided
   const eventEmitter = def.eventEmitter || createRoomEventEmitter<TMeta, E>();
 
   // Initialize static handlers storage if not already present
   // This persists across hibernation because it's stored in the room definition at module scope
   const staticHandlers = def._staticHandlers || new Map<string, Set<EventHandler<TMeta, E>>>();
+  const schemas = def._schemas || new Map<string, StandardSchemaV1>();
+  const middleware = def._middleware || [];
 
-  const room: RoomDefinitionWithHandlers<TMeta, E> = {
+  const room: RoomDefinitionWithHandlers<TMeta, E, TClientEvents, TServerEvents> = {
     name: def.name,
     websocketPath: def.websocketPath,
+    authorize: def.authorize,
     extractMeta: def.extractMeta || ((req: Request) => defaultExtractMeta(req) as TMeta),
     onConnect: def.onConnect,
     onDisconnect: def.onDisconnect,
     onMessage: def.onMessage,
     onError: def.onError,
+    exposeErrors: def.exposeErrors,
+    authorizeJoin: def.authorizeJoin,
     onHibernationRestore: def.onHibernationRestore,
+    rateLimit: def.rateLimit,
+    history: def.history,
+    inbox: def.inbox,
+    exposeSession: def.exposeSession,
+    resume: def.resume,
+    presence: def.presence,
+    state: def.state,
+    sweep: def.sweep,
+    heartbeat: def.heartbeat,
+    autoResponse: def.autoResponse,
+    telemetry: def.telemetry,
     eventEmitter,
     _staticHandlers: staticHandlers,
+    _schemas: schemas,
+    _middleware: middleware,
     // Socket.io-like convenience methods
-    on(event: string, handler: EventHandler<TMeta, E>): void {
+    on(
+      event: string,
+      optionsOrHandler: EventHandlerOptions | EventHandler<TMeta, E, any, any>,
+      maybeHandler?: EventHandler<TMeta, E, any, any>
+    ): void {
+      const handler = typeof optionsOrHandler === "function" ? optionsOrHandler : maybeHandler!;
+      const schema = typeof optionsOrHandler === "function" ? undefined : optionsOrHandler.schema;
+
+      // Schemas are per event: the payload is validated once, before any handler runs.
+      // A later schema for the same event replaces the earlier one.
+      if (schema) {
+        if (event === "*") {
+          throw new Error("Schemas cannot be registered on the wildcard handler");
+        }
+        schemas.set(event, schema);
+      }
+
       // Store in both eventEmitter (for current instance) and static storage (for persistence)
       eventEmitter.on(event, handler);
 
@@ -84,9 +176,8 @@ export function defineRoom<TMeta extends ConnectionMeta = ConnectionMeta, E = un
         staticHandlers.set(event, new Set());
       }
       staticHandlers.get(event)!.add(handler);
-      console.debug(`[Verani:Router] Registered handler for event: ${event} (stored statically)`);
     },
-    off(event: string, handler?: EventHandler<TMeta, E>): void {
+    off(event: string, handler?: EventHandler<TMeta, E, any, any>): void {
       // Remove from both eventEmitter and static storage
       eventEmitter.off(event, handler);
 
@@ -95,15 +186,18 @@ export function defineRoom<TMeta extends ConnectionMeta = ConnectionMeta, E = un
       if (eventHandlers) {
         if (handler) {
           eventHandlers.delete(handler);
-          console.debug(`[Verani:Router] Removed specific handler for event: ${event} (from static storage)`);
           if (eventHandlers.size === 0) {
             staticHandlers.delete(event);
+            schemas.delete(event);
           }
         } else {
           staticHandlers.delete(event);
-          console.debug(`[Verani:Router] Removed all handlers for event: ${event} (from static storage)`);
+          schemas.delete(event);
         }
       }
+    },
+    use(fn: Middleware<TMeta, E, any>): void {
+      middleware.push(fn);
     }
   };
 
@@ -0,0 +1,26 @@
+import { encodeFrame } from "../protocol";
+import type { MessageFrame, Codec } from "../types";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Sends an acknowledgement reply for a frame that carried a correlation id
+ * @param ws - The WebSocket that sent the original frame
+ * @param id - Correlation id of the original frame
+ * @param data - Value returned by the event handler
+ * @param codec - Wire format of the actor (default: JSON)
+ * @param logger - Logger of the session
+ */
+export function sendAck(ws: WebSocket, id: string, data?: unknown, codec?: Codec, logger: Logger = silentLogger): void {
+	if (ws.readyState !== WebSocket.OPEN) {
+		logger.debug("[Verani:Ack] Socket closed before ack could be sent, id:", id);
+		return;
+	}
+
+	try {
+		const frame: MessageFrame = { type: "ack", id, data };
+		ws.send(encodeFrame(frame, codec));
+		logger.debug("[Verani:Ack] Sent ack, id:", id);
+	} catch (error) {
+		logger.error("[Verani] Failed to send ack:", error);
+	}
+}
@@ -0,0 +1,61 @@
+import type { RoomDefinition, ConnectionMeta, VeraniActor, VeraniAlarmPayload } from "../types";
+import { expireSuspendedSession } from "./resume";
+import { runDeferredDisconnect } from "./disconnectGrace";
+import { runScheduledEmit } from "./schedule";
+import { runSweep } from "./sweep";
+import { pruneRateLimitBuckets } from "./rateLimit";
+
+/**
+ * Schedules a runtime timer on the actor's alarms. Timers survive hibernation.
+ * @param actor - The actor instance
+ * @param at - Timestamp (ms) at which the timer fires. Alarms have second precision.
+ * @param payload - What to do when the timer fires
+ * @returns Schedule id, used to cancel the timer
+ */
+export async function scheduleAlarm<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	at: number,
+	payload: VeraniAlarmPayload
+): Promise<string> {
+	const schedule = await actor.alarms.schedule(new Date(at), "onVeraniAlarm", payload);
+	actor.logger.debug("[Verani:Alarms] Scheduled", payload.kind, "timer:", schedule.id, "at:", at);
+	return schedule.id;
+}
+
+/**
+ * Cancels a runtime timer. Cancelling a timer that already fired is a no-op.
+ */
+export async function cancelAlarm<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	id: string
+): Promise<void> {
+	await actor.alarms.cancelSchedule(id);
+}
+
+/**
+ * Runs a runtime timer that fired
+ */
+export async function handleAlarm<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	payload: VeraniAlarmPayload
+): Promise<void> {
+	actor.logger.debug("[Verani:Alarms] Timer fired:", payload.kind);
+	switch (payload.kind) {
+		case "resume":
+			await expireSuspendedSession(actor, room, payload.clientId);
+			break;
+		case "disconnect":
+			await runDeferredDisconnect(actor, room, payload.userId, payload.clientId);
+			break;
+		case "emit":
+			await runScheduledEmit(actor, payload.jobId);
+			break;
+		case "sweep":
+			await runSweep(actor, room);
+			break;
+		case "ratelimit":
+			await pruneRateLimitBuckets(actor, payload.keys);
+			break;
+	}
+}
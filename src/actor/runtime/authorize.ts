@@ -0,0 +1,38 @@
+import type { RoomDefinition, ConnectionMeta, VeraniActor } from "../types";
+
+/**
+ * Runs the room's authorize hook before a WebSocket upgrade
+ * @param room - The room definition
+ * @param request - The incoming upgrade request
+ * @param actor - The actor instance handling the request
+ * @returns A rejection Response, or null if the upgrade may proceed
+ */
+export async function authorizeUpgrade<TMeta extends ConnectionMeta, E>(
+	room: RoomDefinition<TMeta, E>,
+	request: Request,
+	actor: VeraniActor<TMeta, E>
+): Promise<Response | null> {
+	if (!room.authorize) {
+		return null;
+	}
+
+	try {
+		const result = await room.authorize(request, actor);
+
+		if (result instanceof Response) {
+			actor.logger.debug("[Verani:Authorize] Upgrade rejected with status:", result.status);
+			return result;
+		}
+
+		if (result === false) {
+			actor.logger.debug("[Verani:Authorize] Upgrade rejected, returning 403");
+			return new Response("Forbidden", { status: 403 });
+		}
+
+		actor.logger.debug("[Verani:Authorize] Upgrade authorized");
+		return null;
+	} catch (error) {
+		actor.logger.error("[Verani] Error in authorize hook:", error);
+		return new Response("Internal Server Error", { status: 500 });
+	}
+}
@@ -1,5 +1,8 @@
 import { encodeFrame } from "../protocol";
-import type { MessageFrame, BroadcastOptions, ConnectionMeta } from "../types";
+import type { MessageFrame, BroadcastOptions, ConnectionMeta, Codec } from "../types";
+import type { ChannelHistory } from "./history";
+import type { TelemetryRecorder } from "./telemetry";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Broadcasts a message to all connections in a channel
@@ -7,18 +10,33 @@ import type { MessageFrame, BroadcastOptions, ConnectionMeta } from "../types";
  * @param channel - The channel to broadcast to
  * @param data - The data to send
  * @param opts - Broadcast options (filtering, exclusions)
+ * @param history - Channel history of the actor; channel-wide broadcasts are recorded in it
+ * @param codec - Wire format of the actor (default: JSON)
+ * @param logger - Logger of the actor
+ * @param telemetry - Telemetry recorder of the actor, if the room defines telemetry hooks
  * @returns Number of connections that received the message
  */
 export function broadcast<TMeta extends ConnectionMeta>(
 	sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>,
 	channel: string,
 	data: any,
-	opts?: BroadcastOptions
+	opts?: BroadcastOptions,
+	history?: ChannelHistory,
+	codec?: Codec,
+	logger: Logger = silentLogger,
+	telemetry?: TelemetryRecorder
 ): number {
-	console.debug("[Verani:ActorRuntime] Broadcasting to channel:", channel, "options:", opts);
+	const startTime = Date.now();
+	logger.debug("[Verani:ActorRuntime] Broadcasting to channel:", channel, "options:", opts);
 	let sentCount = 0;
 	const frame: MessageFrame = { type: "event", channel, data };
-	const encoded = encodeFrame(frame);
+
+	// Record channel-wide broadcasts; messages targeted at specific users or clients are not history
+	if (history && history.isEnabled(channel) && !opts?.userIds && !opts?.clientIds) {
+		frame.seq = history.record(channel, data);
+	}
+
+	const encoded = encodeFrame(frame, codec);
 	const failedSessions: WebSocket[] = [];
 
 	for (const { ws, meta } of sessions.values()) {
@@ -44,7 +62,7 @@ export function broadcast<TMeta extends ConnectionMeta>(
 
 		// Check WebSocket state before sending
 		if (ws.readyState !== WebSocket.OPEN) {
-			console.debug("[Verani:ActorRuntime] Skipping closed/closing WebSocket");
+			logger.debug("[Verani:ActorRuntime] Skipping closed/closing WebSocket");
 			failedSessions.push(ws);
 			continue;
 		}
@@ -53,7 +71,7 @@ export function broadcast<TMeta extends ConnectionMeta>(
 			ws.send(encoded);
 			sentCount++;
 		} catch (error) {
-			console.error("[Verani] Failed to send to WebSocket:", error);
+			logger.error("[Verani] Failed to send to WebSocket:", error, { userId: meta.userId, clientId: meta.clientId });
 			failedSessions.push(ws);
 		}
 	}
@@ -63,10 +81,11 @@ export function broadcast<TMeta extends ConnectionMeta>(
 		sessions.delete(ws);
 	}
 	if (failedSessions.length > 0) {
-		console.debug("[Verani:ActorRuntime] Removed", failedSessions.length, "failed sessions during broadcast");
+		logger.debug("[Verani:ActorRuntime] Removed", failedSessions.length, "failed sessions during broadcast");
 	}
 
-	console.debug("[Verani:ActorRuntime] Broadcast complete, sent to:", sentCount, "sessions");
+	logger.debug("[Verani:ActorRuntime] Broadcast complete, sent to:", sentCount, "sessions");
+	telemetry?.broadcast({ startTime, channel, recipients: sentCount, failures: failedSessions.length });
 	return sentCount;
 }
 
@@ -0,0 +1,139 @@
+import { storeAttachment } from "../attachment";
+import { encodeFrame } from "../protocol";
+import type { RoomDefinition, MessageContext, MessageFrame, ConnectionMeta } from "../types";
+import { trackChannelPresence, untrackChannelPresence } from "./presence";
+import { replayChannel } from "./history";
+import { getSessionLogger } from "./helpers";
+
+/**
+ * Reserved frame types used by clients to change their channel subscriptions at runtime
+ */
+export const CHANNEL_FRAME_TYPES = ["join", "leave"] as const;
+
+/**
+ * Checks whether a frame is a reserved join/leave frame
+ * @param frame - The decoded frame
+ * @returns true if the frame should be handled by the channel protocol
+ */
+export function isChannelFrame(frame: MessageFrame): boolean {
+	return (CHANNEL_FRAME_TYPES as readonly string[]).includes(frame.type);
+}
+
+/**
+ * Resolves the target channel of a join/leave frame
+ * Accepts both `{ type, channel }` and `{ type, data: { channel } }` shapes
+ */
+function resolveChannel(frame: MessageFrame): string | undefined {
+	const channel = frame.channel ?? frame.data?.channel;
+	if (typeof channel !== "string") {
+		return undefined;
+	}
+	const trimmed = channel.trim();
+	return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Sends a channel protocol reply to the requesting socket
+ */
+function reply<TMeta extends ConnectionMeta, E>(ctx: MessageContext<TMeta, E>, type: string, channel: string): void {
+	if (ctx.ws.readyState !== WebSocket.OPEN) {
+		return;
+	}
+	try {
+		ctx.ws.send(encodeFrame({ type, channel, data: { channel } }, ctx.actor.codec));
+	} catch (error) {
+		getSessionLogger(ctx.actor, ctx.ws, ctx.meta).error("[Verani] Failed to send channel reply:", error);
+	}
+}
+
+/**
+ * Adds a channel to a connection's subscriptions.
+ * Runs the room's authorizeJoin hook first, then persists the updated
+ * metadata to the WebSocket attachment so it survives hibernation.
+ * @param room - The room definition
+ * @param ctx - Message context of the requesting connection
+ * @param channel - Channel to join
+ * @returns true if the connection is subscribed to the channel afterwards
+ */
+export async function joinChannel<TMeta extends ConnectionMeta, E>(
+	room: RoomDefinition<TMeta, E>,
+	ctx: MessageContext<TMeta, E>,
+	channel: string
+): Promise<boolean> {
+	const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+	if (ctx.meta.channels.includes(channel)) {
+		logger.debug("[Verani:Channels] Already subscribed to channel:", channel);
+		return true;
+	}
+
+	if (room.authorizeJoin) {
+		const allowed = await room.authorizeJoin(ctx, channel);
+		if (!allowed) {
+			logger.debug("[Verani:Channels] Join denied by authorizeJoin:", channel);
+			return false;
+		}
+	}
+
+	ctx.meta.channels.push(channel);
+	storeAttachment(ctx.ws, ctx.meta, logger);
+	logger.debug("[Verani:Channels] Joined channel:", channel);
+	return true;
+}
+
+/**
+ * Removes a channel from a connection's subscriptions and persists the change
+ * @param ctx - Message context of the requesting connection
+ * @param channel - Channel to leave
+ * @returns true if the connection was subscribed to the channel
+ */
+export function leaveChannel<TMeta extends ConnectionMeta, E>(
+	ctx: MessageContext<TMeta, E>,
+	channel: string
+): boolean {
+	const index = ctx.meta.channels.indexOf(channel);
+	if (index === -1) {
+		return false;
+	}
+
+	const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+	ctx.meta.channels.splice(index, 1);
+	storeAttachment(ctx.ws, ctx.meta, logger);
+	logger.debug("[Verani:Channels] Left channel:", channel);
+	return true;
+}
+
+/**
+ * Handles a reserved join/leave frame and replies with
+ * `channel.joined`, `channel.left` or `channel.denied`.
+ * A join carrying `data.cursor` (the last history seq the client saw) is followed
+ * by the channel messages recorded since.
+ */
+export async function handleChannelFrame<TMeta extends ConnectionMeta, E>(
+	room: RoomDefinition<TMeta, E>,
+	ctx: MessageContext<TMeta, E>,
+	frame: MessageFrame
+): Promise<void> {
+	const channel = resolveChannel(frame);
+	if (!channel) {
+		getSessionLogger(ctx.actor, ctx.ws, ctx.meta).warn("[Verani] Ignoring", frame.type, "frame without a valid channel");
+		return;
+	}
+
+	if (frame.type === "join") {
+		const joined = await joinChannel(room, ctx, channel);
+		reply(ctx, joined ? "channel.joined" : "channel.denied", channel);
+		if (joined) {
+			trackChannelPresence(ctx.actor, ctx.ws, ctx.meta, channel);
+			const cursor = frame.data?.cursor;
+			if (typeof cursor === "number") {
+				await replayChannel(ctx, channel, cursor);
+			}
+		}
+		return;
+	}
+
+	if (leaveChannel(ctx, channel)) {
+		untrackChannelPresence(ctx.actor, ctx.meta, channel);
+	}
+	reply(ctx, "channel.left", channel);
+}
@@ -1,11 +1,15 @@
+import { silentLogger, type Logger } from "../../shared/logger";
+
 /**
  * Removes all WebSocket sessions that are not in OPEN state
  * This prevents stale connections from accumulating in memory
  * @param sessions - Map of WebSocket sessions
+ * @param logger - Logger of the actor
  * @returns Number of sessions cleaned up
  */
 export function cleanupStaleSessions<TMeta>(
-	sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>
+	sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>,
+	logger: Logger = silentLogger
 ): number {
 	let cleanedCount = 0;
 	const deadSessions: WebSocket[] = [];
@@ -24,7 +28,7 @@ export function cleanupStaleSessions<TMeta>(
 	}
 
 	if (cleanedCount > 0) {
-		console.debug("[Verani:ActorRuntime] Cleaned up", cleanedCount, "dead sessions");
+		logger.debug("[Verani:ActorRuntime] Cleaned up", cleanedCount, "dead sessions");
 	}
 
 	return cleanedCount;
@@ -0,0 +1,44 @@
+import type { ConnectionMeta } from "../types";
+import { createActorSlot } from "./helpers";
+
+/**
+ * Closed sockets of sessions whose onDisconnect is deferred, kept while the actor
+ * stays in memory so the deferred hook sees the same `ctx.ws` the session had
+ */
+const closedSockets = createActorSlot<Map<string, WebSocket>>();
+
+/**
+ * Keeps the closed socket of a session until its deferred onDisconnect runs
+ */
+export function keepClosedSocket(actor: object, clientId: string, ws: WebSocket): void {
+	closedSockets.ensure(actor, () => new Map()).set(clientId, ws);
+}
+
+/**
+ * Forgets a kept socket, e.g. because its session came back
+ */
+export function releaseClosedSocket(actor: object, clientId: string): void {
+	closedSockets.get(actor)?.delete(clientId);
+}
+
+/**
+ * Takes a kept socket out of memory for a deferred onDisconnect.
+ * If the actor hibernated in the meantime, returns a stand-in that reports CLOSED,
+ * so emits to it are skipped.
+ */
+export function takeClosedSocket(actor: object, clientId: string, meta: ConnectionMeta): WebSocket {
+	const sockets = closedSockets.get(actor);
+	const ws = sockets?.get(clientId);
+	if (ws) {
+		sockets!.delete(clientId);
+		return ws;
+	}
+
+	return {
+		readyState: WebSocket.CLOSED,
+		send() {},
+		close() {},
+		serializeAttachment() {},
+		deserializeAttachment: () => ({ meta, lastActivity: 0 })
+	} as unknown as WebSocket;
+}
@@ -1,5 +1,6 @@
 import type { ActorConfiguration } from "@cloudflare/actors";
 import type { RoomDefinition, ConnectionMeta } from "../types";
+import { AUTO_RESPONSE_PING, AUTO_RESPONSE_PONG } from "../../shared/handshake";
 
 /**
  * Static configuration method for Cloudflare Actors
@@ -13,14 +14,21 @@ export function createConfiguration<TMeta extends ConnectionMeta, E>(
 			locationHint: "me",
 			sockets: {
 				upgradePath: room.websocketPath
-				// autoResponse removed - we handle ping/pong manually via protocol-encoded messages
+				// autoResponse is applied in onInit when the room enables it: the Actors base class
+				// only applies it on plain HTTP requests, which Verani's fetch handles itself
 			}
 		};
 
-		console.debug("[Verani:ActorRuntime] configuration() called, request:", request ? request.url : "undefined");
-		console.debug("[Verani:ActorRuntime] configuration() resolved config:", config);
-
 		return config;
 	};
 }
 
+/**
+ * Lets the Durable Object runtime answer the fixed keepalive ping without waking the actor.
+ * Pings answered this way never reach onWebSocketMessage; their time is read back with
+ * `getWebSocketAutoResponseTimestamp`.
+ */
+export function enableAutoResponse(state: DurableObjectState): void {
+	state.setWebSocketAutoResponse(new WebSocketRequestResponsePair(AUTO_RESPONSE_PING, AUTO_RESPONSE_PONG));
+}
+
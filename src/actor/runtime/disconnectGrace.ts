@@ -0,0 +1,142 @@
+import type { RoomDefinition, ConnectionMeta, VeraniActor } from "../types";
+import { scheduleAlarm, cancelAlarm } from "./alarms";
+import { runDisconnectHook } from "./onWebSocketDisconnect";
+import { keepClosedSocket, releaseClosedSocket, takeClosedSocket } from "./closedSockets";
+
+/**
+ * Storage key prefix of pending disconnects: `verani:disconnect:<userId>:<clientId>`
+ */
+const PENDING_PREFIX = "verani:disconnect:";
+
+/**
+ * An onDisconnect call waiting for its grace period to end
+ */
+interface PendingDisconnect<TMeta> {
+	meta: TMeta;
+	expiresAt: number;
+	alarmId: string;
+}
+
+function userPrefix(userId: string): string {
+	return `${PENDING_PREFIX}${encodeURIComponent(userId)}:`;
+}
+
+/**
+ * Gets the grace period configured on the room's onDisconnect hook
+ * @returns Milliseconds to wait, or 0 to call the hook immediately
+ */
+export function getDisconnectGraceMs<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>): number {
+	const hook = room.onDisconnect;
+	return hook && typeof hook === "object" ? Math.max(0, hook.graceMs) : 0;
+}
+
+/**
+ * Postpones onDisconnect for a session. The call is persisted with an alarm,
+ * so it still happens if the actor hibernates in the meantime.
+ */
+export async function deferDisconnect<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	graceMs: number,
+	ws: WebSocket,
+	meta: TMeta
+): Promise<void> {
+	const expiresAt = Date.now() + graceMs;
+	const alarmId = await scheduleAlarm(actor, expiresAt, { kind: "disconnect", userId: meta.userId, clientId: meta.clientId });
+	const pending: PendingDisconnect<TMeta> = { meta, expiresAt, alarmId };
+	await actor.getStorage().put(userPrefix(meta.userId) + meta.clientId, pending);
+	keepClosedSocket(actor, meta.clientId, ws);
+
+	actor.logger.debug("[Verani:Disconnect] onDisconnect deferred, userId:", meta.userId, "graceMs:", graceMs);
+}
+
+/**
+ * Drops the oldest pending onDisconnect of a user who connected again
+ * @returns Meta of the session whose call was cancelled, or null if none was pending
+ */
+export async function cancelDeferredDisconnect<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	userId: string
+): Promise<TMeta | null> {
+	const entries = await actor.getStorage().list<PendingDisconnect<TMeta>>({ prefix: userPrefix(userId) });
+
+	let oldestKey: string | undefined;
+	let oldest: PendingDisconnect<TMeta> | undefined;
+	for (const [key, pending] of entries) {
+		if (!oldest || pending.expiresAt < oldest.expiresAt) {
+			oldestKey = key;
+			oldest = pending;
+		}
+	}
+	if (!oldestKey || !oldest) {
+		return null;
+	}
+
+	await actor.getStorage().delete(oldestKey);
+	await cancelAlarm(actor, oldest.alarmId);
+	releaseClosedSocket(actor, oldest.meta.clientId);
+
+	actor.logger.debug("[Verani:Disconnect] Pending onDisconnect cancelled by reconnect, userId:", userId);
+	return oldest.meta;
+}
+
+/**
+ * Lists the clientIds of sessions whose onDisconnect is pending
+ */
+export async function listPendingDisconnectClientIds<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>
+): Promise<string[]> {
+	const entries = await actor.getStorage().list<PendingDisconnect<TMeta>>({ prefix: PENDING_PREFIX });
+	return Array.from(entries.values(), (pending) => pending.meta.clientId);
+}
+
+/**
+ * Runs a deferred onDisconnect whose grace period ended without a reconnect
+ */
+export async function runDeferredDisconnect<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	userId: string,
+	clientId: string
+): Promise<void> {
+	const key = userPrefix(userId) + clientId;
+	const pending = await actor.getStorage().get<PendingDisconnect<TMeta>>(key);
+	if (!pending) {
+		// Cancelled by a reconnect
+		return;
+	}
+
+	await actor.getStorage().delete(key);
+	const ws = takeClosedSocket(actor, clientId, pending.meta);
+
+	actor.logger.debug("[Verani:Disconnect] Grace period ended, userId:", userId);
+	try {
+		await runDisconnectHook(actor, room, ws, pending.meta);
+	} catch (error) {
+		actor.logger.error("[Verani] Error in deferred onDisconnect:", error);
+	}
+}
+
+/**
+ * Runs a user's pending onDisconnect calls now instead of at the end of their grace period,
+ * so a reconnect cannot cancel them
+ * @param clientId - Only run this client's call
+ * @returns Number of calls run
+ */
+export async function flushDeferredDisconnects<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	userId: string,
+	clientId?: string
+): Promise<number> {
+	const entries = await actor.getStorage().list<PendingDisconnect<TMeta>>({ prefix: userPrefix(userId) });
+	let flushed = 0;
+	for (const pending of entries.values()) {
+		if (clientId !== undefined && pending.meta.clientId !== clientId) {
+			continue;
+		}
+		await cancelAlarm(actor, pending.alarmId);
+		await runDeferredDisconnect(actor, room, userId, pending.meta.clientId);
+		flushed++;
+	}
+	return flushed;
+}
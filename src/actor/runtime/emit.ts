@@ -3,26 +3,29 @@ import type {
 	SocketEmit,
 	ActorEmit,
 	EmitBuilder,
-	MessageContext,
+	RoomContext,
 	VeraniActor,
 	ConnectionMeta,
 	BroadcastOptions
 } from "../types";
 import { broadcast as broadcastImpl } from "./broadcast";
 import { sendToUser as sendToUserImpl } from "./sendToUser";
+import { getChannelHistory } from "./history";
+import { getSessionLogger } from "./helpers";
+import { getTelemetry } from "./telemetry";
 
 /**
  * Creates an emit builder that targets a specific user
  */
 function createUserEmitBuilder<TMeta extends ConnectionMeta, E>(
 	userId: string,
-	sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>,
+	actor: VeraniActor<TMeta, E>,
 	defaultChannel: string
 ): EmitBuilder<TMeta, E> {
 	return {
 		emit(event: string, data?: any): number {
 			const eventData = { type: event, ...data };
-			return sendToUserImpl(sessions, userId, defaultChannel, eventData);
+			return sendToUserImpl(actor.sessions, userId, defaultChannel, eventData, actor.codec, actor.logger, getTelemetry(actor));
 		}
 	};
 }
@@ -32,13 +35,13 @@ function createUserEmitBuilder<TMeta extends ConnectionMeta, E>(
  */
 function createChannelEmitBuilder<TMeta extends ConnectionMeta, E>(
 	channel: string,
-	sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>,
+	actor: VeraniActor<TMeta, E>,
 	opts?: BroadcastOptions
 ): EmitBuilder<TMeta, E> {
 	return {
 		emit(event: string, data?: any): number {
 			const eventData = { type: event, ...data };
-			return broadcastImpl(sessions, channel, eventData, opts);
+			return broadcastImpl(actor.sessions, channel, eventData, opts, getChannelHistory(actor), actor.codec, actor.logger, getTelemetry(actor));
 		}
 	};
 }
@@ -48,7 +51,7 @@ function createChannelEmitBuilder<TMeta extends ConnectionMeta, E>(
  * Allows emitting to current socket, user, or channel
  */
 export function createSocketEmit<TMeta extends ConnectionMeta, E>(
-	ctx: MessageContext<TMeta, E>
+	ctx: Pick<RoomContext<TMeta, E>, "actor" | "ws" | "meta">
 ): SocketEmit<TMeta, E> {
 	const defaultChannel = ctx.meta.channels[0] || "default";
 
@@ -57,18 +60,19 @@ export function createSocketEmit<TMeta extends ConnectionMeta, E>(
 		 * Emit to the current socket
 		 */
 		emit(event: string, data?: any): void {
-			console.debug(`[Verani:Emit] Socket emit: ${event}`);
+			const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+			logger.debug(`[Verani:Emit] Socket emit: ${event}`);
 			if (ctx.ws.readyState !== WebSocket.OPEN) {
-				console.warn(`[Verani:Emit] Cannot emit to closed socket: ${event}`);
+				logger.warn(`[Verani:Emit] Cannot emit to closed socket: ${event}`);
 				return;
 			}
 
 			try {
 				const eventData = { type: event, ...data };
 				const frame = { type: "event", channel: defaultChannel, data: eventData };
-				ctx.ws.send(encodeFrame(frame));
+				ctx.ws.send(encodeFrame(frame, ctx.actor.codec));
 			} catch (error) {
-				console.error(`[Verani:Emit] Failed to emit to socket:`, error);
+				logger.error(`[Verani:Emit] Failed to emit to socket:`, error);
 			}
 		},
 
@@ -85,14 +89,14 @@ export function createSocketEmit<TMeta extends ConnectionMeta, E>(
 				// Target is a channel - broadcast to it, excluding current socket
 				return createChannelEmitBuilder(
 					target,
-					ctx.actor.sessions,
+					ctx.actor,
 					{ except: ctx.ws }
 				);
 			} else {
 				// Target is assumed to be a userId
 				return createUserEmitBuilder(
 					target,
-					ctx.actor.sessions,
+					ctx.actor,
 					defaultChannel
 				);
 			}
@@ -114,16 +118,16 @@ export function createActorEmit<TMeta extends ConnectionMeta, E>(
 		 * Broadcast to default channel
 		 */
 		emit(event: string, data?: any): number {
-			console.debug(`[Verani:Emit] Actor emit: ${event}`);
+			actor.logger.debug(`[Verani:Emit] Actor emit: ${event}`);
 			const eventData = { type: event, ...data };
-			return broadcastImpl(actor.sessions, defaultChannel, eventData);
+			return broadcastImpl(actor.sessions, defaultChannel, eventData, undefined, getChannelHistory(actor), actor.codec, actor.logger, getTelemetry(actor));
 		},
 
 		/**
 		 * Target a specific channel for broadcasting
 		 */
 		to(channel: string): EmitBuilder<TMeta, E> {
-			return createChannelEmitBuilder(channel, actor.sessions);
+			return createChannelEmitBuilder(channel, actor);
 		}
 	};
 }
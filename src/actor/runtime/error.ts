@@ -0,0 +1,87 @@
+import { encodeFrame } from "../protocol";
+import type { RoomDefinition, MessageContext, MessageFrame, ConnectionMeta, ExposedError, Codec } from "../types";
+import { silentLogger, type Logger } from "../../shared/logger";
+import type { ErrorFrameData } from "../../shared/types";
+
+/**
+ * Error code of the sanitized frame sent for unhandled errors when `exposeErrors` is true
+ */
+export const INTERNAL_ERROR = "INTERNAL_ERROR";
+
+/**
+ * Error code sent for frames with an id that no handler answered
+ */
+export const UNHANDLED_EVENT = "UNHANDLED_EVENT";
+
+/**
+ * Sanitized error frame sent for unhandled errors
+ */
+const SANITIZED_ERROR: ExposedError = { code: INTERNAL_ERROR, message: "Internal server error" };
+
+/**
+ * Sends an `error` frame to a single socket
+ * @param ws - The WebSocket to notify
+ * @param data - Error payload
+ * @param id - Correlation id of the frame that caused the error, so a pending ack can be rejected.
+ * Also sent as `requestId` in the payload.
+ * @param codec - Wire format of the actor (default: JSON)
+ * @param logger - Logger of the session
+ */
+export function sendError(ws: WebSocket, data: ErrorFrameData, id?: string, codec?: Codec, logger: Logger = silentLogger): void {
+	if (ws.readyState !== WebSocket.OPEN) {
+		logger.debug("[Verani:Error] Socket closed before error could be sent, code:", data.code);
+		return;
+	}
+
+	try {
+		const frame: MessageFrame = { type: "error", data };
+		if (id !== undefined) {
+			frame.id = id;
+			frame.data = { ...data, requestId: id };
+		}
+		ws.send(encodeFrame(frame, codec));
+		logger.debug("[Verani:Error] Sent error frame, code:", data.code);
+	} catch (error) {
+		logger.error("[Verani] Failed to send error frame:", error);
+	}
+}
+
+/**
+ * Creates `ctx.reject` for a received frame. Only the first call sends an error frame.
+ * @returns The reject function, and a check telling whether it was called so the ack can be skipped
+ */
+export function createReject(
+	ws: WebSocket,
+	frame: MessageFrame,
+	codec?: Codec,
+	logger: Logger = silentLogger
+): { reject: (code: string, message: string) => void; isRejected: () => boolean } {
+	let rejected = false;
+	return {
+		reject(code: string, message: string): void {
+			if (rejected) {
+				return;
+			}
+			rejected = true;
+			sendError(ws, { code, message, event: frame.type }, frame.id, codec, logger);
+		},
+		isRejected: () => rejected
+	};
+}
+
+/**
+ * Maps an unhandled handler error to the error frame the room exposes to the sender.
+ * Frames sent with an ack always get an answer: the sanitized error if the room exposes nothing.
+ * @returns The code and message to send, or undefined if the sender learns nothing
+ */
+export function toExposedError<TMeta extends ConnectionMeta, E>(
+	room: RoomDefinition<TMeta, E>,
+	error: unknown,
+	ctx: MessageContext<TMeta, E>
+): ExposedError | undefined {
+	const fallback = ctx.frame.id !== undefined ? SANITIZED_ERROR : undefined;
+	if (typeof room.exposeErrors === "function") {
+		return room.exposeErrors(error, ctx) ?? fallback;
+	}
+	return room.exposeErrors ? SANITIZED_ERROR : fallback;
+}
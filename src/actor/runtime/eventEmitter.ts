@@ -1,4 +1,5 @@
 import type { RoomEventEmitter, EventHandler, MessageContext, ConnectionMeta } from "../types";
+import { getSessionLogger } from "./helpers";
 
 /**
  * Room-level event emitter for socket.io-like event handling
@@ -17,7 +18,6 @@ export class RoomEventEmitterImpl<TMeta extends ConnectionMeta = ConnectionMeta,
 			this.handlers.set(event, new Set());
 		}
 		this.handlers.get(event)!.add(handler);
-		console.debug(`[Verani:EventEmitter] Registered handler for event: ${event}`);
 	}
 
 	/**
@@ -33,13 +33,11 @@ export class RoomEventEmitterImpl<TMeta extends ConnectionMeta = ConnectionMeta,
 
 		if (handler) {
 			eventHandlers.delete(handler);
-			console.debug(`[Verani:EventEmitter] Removed specific handler for event: ${event}`);
 			if (eventHandlers.size === 0) {
 				this.handlers.delete(event);
 			}
 		} else {
 			this.handlers.delete(event);
-			console.debug(`[Verani:EventEmitter] Removed all handlers for event: ${event}`);
 		}
 	}
 
@@ -48,31 +46,35 @@ export class RoomEventEmitterImpl<TMeta extends ConnectionMeta = ConnectionMeta,
 	 * @param event - Event name
 	 * @param ctx - Message context
 	 * @param data - Event data
+	 * @returns The first non-undefined value returned by a handler for this event.
+	 * Wildcard handler return values are ignored.
+	 * @throws An error thrown by a handler for this event, once all of them were called
 	 */
-	async emit(event: string, ctx: MessageContext<TMeta, E>, data: any): Promise<void> {
-		console.debug(`[Verani:EventEmitter] Emitting event: ${event}`);
+	async emit(event: string, ctx: MessageContext<TMeta, E>, data: any): Promise<unknown> {
+		const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+		logger.debug(`[Verani:EventEmitter] Emitting event: ${event}`);
+		let reply: unknown;
 
 		// Get handlers for the specific event
 		const eventHandlers = this.handlers.get(event);
 		if (eventHandlers && eventHandlers.size > 0) {
-			const promises: Promise<void>[] = [];
+			const results: unknown[] = [];
 			for (const handler of eventHandlers) {
 				try {
-					const result = handler(ctx, data);
-					if (result instanceof Promise) {
-						promises.push(result);
-					}
+					results.push(handler(ctx, data));
 				} catch (error) {
-					console.error(`[Verani:EventEmitter] Error in handler for event ${event}:`, error);
+					// Other handlers still run; the error then fails the event like an async one
+					results.push(Promise.reject(error));
 				}
 			}
-			await Promise.all(promises);
+			const settled = await Promise.all(results);
+			reply = settled.find((result) => result !== undefined);
 		}
 
 		// Also check for wildcard handlers
 		const wildcardHandlers = this.handlers.get("*");
 		if (wildcardHandlers && wildcardHandlers.size > 0) {
-			const promises: Promise<void>[] = [];
+			const promises: Promise<unknown>[] = [];
 			for (const handler of wildcardHandlers) {
 				try {
 					const result = handler(ctx, data);
@@ -80,11 +82,13 @@ export class RoomEventEmitterImpl<TMeta extends ConnectionMeta = ConnectionMeta,
 						promises.push(result);
 					}
 				} catch (error) {
-					console.error(`[Verani:EventEmitter] Error in wildcard handler for event ${event}:`, error);
+					logger.error(`[Verani:EventEmitter] Error in wildcard handler for event ${event}:`, error);
 				}
 			}
 			await Promise.all(promises);
 		}
+
+		return reply;
 	}
 
 	/**
@@ -113,14 +117,12 @@ export class RoomEventEmitterImpl<TMeta extends ConnectionMeta = ConnectionMeta,
 	 * @param staticHandlers - Map of event names to handler sets from static storage
 	 */
 	rebuildHandlers(staticHandlers: Map<string, Set<EventHandler<TMeta, E>>>): void {
-		console.debug(`[Verani:EventEmitter] Rebuilding handlers from static storage, ${staticHandlers.size} event types`);
 		// Clear existing handlers
 		this.handlers.clear();
 		// Copy all handlers from static storage
 		for (const [event, handlers] of staticHandlers.entries()) {
 			this.handlers.set(event, new Set(handlers));
 		}
-		console.debug(`[Verani:EventEmitter] Rebuilt ${this.handlers.size} event types`);
 	}
 }
 
@@ -1,4 +1,5 @@
-import type { RoomDefinition, ConnectionMeta } from "../types";
+import type { RoomDefinition, ConnectionMeta, VeraniActor } from "../types";
+import { authorizeUpgrade } from "./authorize";
 
 /**
  * Type representing an actor instance with the methods needed for fetch handling.
@@ -12,7 +13,7 @@ export interface ActorInstanceWithFetchMethods {
 
 /**
  * Creates the fetch method for the actor class
- * Handles WebSocket upgrade requests
+ * Handles WebSocket upgrade requests, running the room's authorize hook first
  */
 export function createFetch<TMeta extends ConnectionMeta, E>(
 	room: RoomDefinition<TMeta, E>,
@@ -23,6 +24,16 @@ export function createFetch<TMeta extends ConnectionMeta, E>(
 		const upgradeHeader = request.headers.get("Upgrade");
 
 		if (url.pathname === room.websocketPath && upgradeHeader === 'websocket') {
+			// Reject unauthorized connections with a real HTTP response before upgrading
+			const rejection = await authorizeUpgrade(
+				room,
+				request,
+				actorInstance as unknown as VeraniActor<TMeta, E>
+			);
+			if (rejection) {
+				return rejection;
+			}
+
 			const shouldUpgrade = await actorInstance.shouldUpgradeWebSocket(request);
 			if (shouldUpgrade) {
 				return actorInstance.onWebSocketUpgrade(request);
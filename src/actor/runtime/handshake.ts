@@ -0,0 +1,124 @@
+import { encodeFrame } from "../protocol";
+import type { RoomDefinition, ConnectionMeta, VeraniActor } from "../types";
+import { PROTOCOL_VERSION, type WelcomeFrameData, type SessionFrameData } from "../../shared/types";
+import { PROTOCOL_VERSION_PARAM, WELCOME_FRAME_TYPE, SESSION_FRAME_TYPE, isCompatibleProtocolVersion } from "../../shared/handshake";
+import { createResumeToken } from "./resume";
+import { getConnectionId } from "../attachment";
+import { getKeepaliveSettings } from "./sweep";
+
+/**
+ * Meta fields exposed to the client when the room does not configure exposeSession
+ */
+const DEFAULT_SESSION_FIELDS = ["userId", "clientId"] as const;
+
+/**
+ * Reads the protocol version announced by the client on the upgrade request
+ * @returns The incompatible version, or null if the client may connect.
+ * Clients that announce no version (older SDKs) are accepted.
+ */
+export function getIncompatibleProtocolVersion(req: Request): string | null {
+	const version = new URL(req.url).searchParams.get(PROTOCOL_VERSION_PARAM);
+	if (version === null || isCompatibleProtocolVersion(version)) {
+		return null;
+	}
+	return version;
+}
+
+/**
+ * Lists the optional protocol features enabled for a room
+ */
+export function getCapabilities<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>): string[] {
+	const capabilities = ["ack", "channels", "errors"];
+	if (room.history) {
+		capabilities.push("history");
+	}
+	if (room.inbox) {
+		capabilities.push("inbox");
+	}
+	if (room.rateLimit) {
+		capabilities.push("rateLimit");
+	}
+	if (room.presence) {
+		capabilities.push("presence");
+	}
+	if (room.state) {
+		capabilities.push("state");
+	}
+	if (room.heartbeat) {
+		capabilities.push("heartbeat");
+	}
+	if (room.autoResponse) {
+		capabilities.push("autoResponse");
+	}
+	return capabilities;
+}
+
+/**
+ * Sends the `welcome` frame to a newly accepted connection
+ */
+export function sendWelcome<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	ws: WebSocket,
+	meta: TMeta
+): void {
+	const data: WelcomeFrameData = {
+		version: PROTOCOL_VERSION,
+		capabilities: getCapabilities(room),
+		clientId: meta.clientId
+	};
+	const keepalive = getKeepaliveSettings(room);
+	if (keepalive) {
+		data.keepalive = keepalive;
+	}
+
+	try {
+		ws.send(encodeFrame({ type: WELCOME_FRAME_TYPE, data }, actor.codec));
+		actor.logger.debug("[Verani:Handshake] Sent welcome, version:", PROTOCOL_VERSION);
+	} catch (error) {
+		actor.logger.error("[Verani] Failed to send welcome frame:", error);
+	}
+}
+
+/**
+ * Builds the `session` payload from the room's exposeSession setting
+ */
+export function getSessionData<TMeta extends ConnectionMeta, E>(
+	room: RoomDefinition<TMeta, E>,
+	meta: TMeta
+): SessionFrameData {
+	if (typeof room.exposeSession === "function") {
+		return room.exposeSession(meta);
+	}
+
+	const data: Record<string, unknown> = {};
+	for (const field of room.exposeSession ?? DEFAULT_SESSION_FIELDS) {
+		data[field] = meta[field];
+	}
+	return data;
+}
+
+/**
+ * Sends the `session` frame telling the client who the server thinks it is,
+ * with a fresh resume token when the room enables resumption
+ * @param resumed - Whether this connection resumed a suspended session
+ */
+export async function sendSession<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	ws: WebSocket,
+	meta: TMeta,
+	resumed = false
+): Promise<void> {
+	try {
+		const data = getSessionData(room, meta);
+		if (room.resume) {
+			data.resumeToken = await createResumeToken(room.resume, meta, getConnectionId(ws));
+			data.resumed = resumed;
+		}
+		ws.send(encodeFrame({ type: SESSION_FRAME_TYPE, data }, actor.codec));
+		actor.logger.debug("[Verani:Handshake] Sent session, clientId:", meta.clientId);
+	} catch (error) {
+		actor.logger.error("[Verani] Failed to send session frame:", error);
+	}
+}
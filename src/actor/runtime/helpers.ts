@@ -1,4 +1,6 @@
 import type { ConnectionMeta } from "../types";
+import type { Logger } from "../../shared/logger";
+import { getConnectionId } from "../attachment";
 
 /**
  * Gets the total number of active sessions
@@ -54,3 +56,69 @@ export function getStorage(ctx: { storage: DurableObjectStorage }): DurableObjec
 	return ctx.storage;
 }
 
+/**
+ * Gets the Durable Object state of an actor, which the Actors base class keeps protected
+ * @param actor - Actor instance
+ */
+export function getDurableObjectState(actor: object): DurableObjectState {
+	return (actor as { ctx: DurableObjectState }).ctx;
+}
+
+/**
+ * Gets a logger for one session: the actor's logger with the session's userId, clientId and connectionId
+ * @param actor - Actor instance
+ * @param ws - The session's WebSocket
+ * @param meta - The session's metadata
+ */
+export function getSessionLogger(actor: { logger: Logger }, ws: WebSocket, meta: ConnectionMeta): Logger {
+	return actor.logger.child({ userId: meta.userId, clientId: meta.clientId, connectionId: getConnectionId(ws) });
+}
+
+/**
+ * Maximum number of keys accepted by a single Durable Object storage delete
+ */
+const MAX_KEYS_PER_DELETE = 128;
+
+/**
+ * Deletes any number of keys, splitting them into batches the storage API accepts
+ * @param storage - Durable Object storage
+ * @param keys - Keys to delete
+ */
+export async function deleteKeys(storage: DurableObjectStorage, keys: string[]): Promise<void> {
+	for (let i = 0; i < keys.length; i += MAX_KEYS_PER_DELETE) {
+		await storage.delete(keys.slice(i, i + MAX_KEYS_PER_DELETE));
+	}
+}
+
+/**
+ * Runtime data kept per actor instance, such as loaded caches.
+ * It lives as long as the instance, so it is gone after hibernation or eviction.
+ */
+export interface ActorSlot<T> {
+	get(actor: object): T | undefined;
+	set(actor: object, value: T): void;
+	/** Gets the value, creating it on first use */
+	ensure(actor: object, create: () => T): T;
+}
+
+/**
+ * Creates a slot for per-actor runtime data.
+ * Module state is shared by every actor in the isolate, so values are keyed by actor instance.
+ */
+export function createActorSlot<T>(): ActorSlot<T> {
+	const values = new WeakMap<object, T>();
+	return {
+		get: (actor) => values.get(actor),
+		set: (actor, value) => {
+			values.set(actor, value);
+		},
+		ensure: (actor, create) => {
+			let value = values.get(actor);
+			if (value === undefined) {
+				value = create();
+				values.set(actor, value);
+			}
+			return value;
+		}
+	};
+}
@@ -0,0 +1,242 @@
+import { encodeFrame } from "../protocol";
+import type { HistoryConfig, MessageContext, MessageFrame, ConnectionMeta } from "../types";
+import { createActorSlot, deleteKeys, getSessionLogger } from "./helpers";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Default number of messages kept per channel
+ */
+export const DEFAULT_HISTORY_MAX_MESSAGES = 100;
+
+/**
+ * Reserved frame type clients send with their per-channel cursors after (re)connecting
+ */
+export const REPLAY_FRAME_TYPE = "replay";
+
+/**
+ * Prefix of every history key in Durable Object storage
+ */
+const STORAGE_PREFIX = "verani:history:";
+
+/**
+ * A stored history entry
+ */
+interface HistoryEntry {
+	seq: number;
+	data: any;
+	timestamp: number;
+}
+
+/**
+ * Storage key prefix of a channel's entries.
+ * Channel names are URI-encoded so one channel's prefix can never match another channel.
+ */
+function entryPrefix(channel: string): string {
+	return `${STORAGE_PREFIX}entry:${encodeURIComponent(channel)}:`;
+}
+
+/**
+ * Storage key of a single entry; seq is zero-padded so keys sort in sequence order
+ */
+function entryKey(channel: string, seq: number): string {
+	return entryPrefix(channel) + String(seq).padStart(16, "0");
+}
+
+/**
+ * Storage key of a channel's sequence counter
+ */
+function seqKey(channel: string): string {
+	return `${STORAGE_PREFIX}seq:${encodeURIComponent(channel)}`;
+}
+
+/**
+ * Per-channel message history backed by Durable Object storage.
+ * Sequence counters are loaded once in onInit so that recording a broadcast
+ * stays synchronous; entries are written without awaiting.
+ */
+export class ChannelHistory {
+	private seqs = new Map<string, number>();
+	private maxMessages: number;
+
+	constructor(
+		private storage: DurableObjectStorage,
+		private config: HistoryConfig,
+		private logger: Logger = silentLogger
+	) {
+		this.maxMessages = config.maxMessages ?? DEFAULT_HISTORY_MAX_MESSAGES;
+	}
+
+	/**
+	 * Loads the sequence counters from storage.
+	 * Must be awaited before the first broadcast after the actor wakes up.
+	 */
+	async load(): Promise<void> {
+		const counters = await this.storage.list<number>({ prefix: `${STORAGE_PREFIX}seq:` });
+		this.seqs.clear();
+		for (const [key, seq] of counters) {
+			const channel = decodeURIComponent(key.slice(`${STORAGE_PREFIX}seq:`.length));
+			this.seqs.set(channel, seq);
+		}
+		this.logger.debug("[Verani:History] Loaded sequence counters for", this.seqs.size, "channels");
+	}
+
+	/**
+	 * Checks whether history is kept for a channel
+	 */
+	isEnabled(channel: string): boolean {
+		return this.config.channels === "*" || this.config.channels.includes(channel);
+	}
+
+	/**
+	 * Assigns the next sequence number to a broadcast and persists it
+	 * @param channel - Channel the message was broadcast to
+	 * @param data - Event payload of the broadcast frame
+	 * @returns The sequence number to attach to the outgoing frame
+	 */
+	record(channel: string, data: any): number {
+		const seq = (this.seqs.get(channel) ?? 0) + 1;
+		this.seqs.set(channel, seq);
+
+		const entry: HistoryEntry = { seq, data, timestamp: Date.now() };
+		const writes: Record<string, unknown> = {
+			[seqKey(channel)]: seq,
+			[entryKey(channel, seq)]: entry
+		};
+
+		this.storage.put(writes).catch((error) => {
+			this.logger.error("[Verani] Failed to store history entry:", error);
+		});
+
+		// Keep at most maxMessages entries
+		if (seq > this.maxMessages) {
+			this.storage.delete(entryKey(channel, seq - this.maxMessages)).catch((error) => {
+				this.logger.error("[Verani] Failed to prune history entry:", error);
+			});
+		}
+
+		return seq;
+	}
+
+	/**
+	 * Lists the entries of a channel recorded after a cursor, dropping expired ones
+	 * @param channel - Channel name
+	 * @param after - Last sequence number the client has seen
+	 */
+	async since(channel: string, after: number): Promise<HistoryEntry[]> {
+		const entries = await this.storage.list<HistoryEntry>({
+			start: entryKey(channel, after + 1),
+			prefix: entryPrefix(channel),
+			limit: this.maxMessages
+		});
+
+		const result: HistoryEntry[] = [];
+		const expired: string[] = [];
+		const cutoff = this.config.ttlMs ? Date.now() - this.config.ttlMs : 0;
+
+		for (const [key, entry] of entries) {
+			if (entry.timestamp < cutoff) {
+				expired.push(key);
+				continue;
+			}
+			result.push(entry);
+		}
+
+		if (expired.length > 0) {
+			deleteKeys(this.storage, expired).catch((error) => {
+				this.logger.error("[Verani] Failed to delete expired history entries:", error);
+			});
+		}
+
+		return result;
+	}
+}
+
+/**
+ * Channel history of each actor instance
+ */
+const histories = createActorSlot<ChannelHistory>();
+
+/**
+ * Creates (or replaces) the channel history of an actor and loads its counters
+ * @param actor - The actor instance
+ * @param storage - The actor's Durable Object storage
+ * @param config - Room history configuration
+ * @param logger - Logger of the actor
+ */
+export async function initChannelHistory(
+	actor: object,
+	storage: DurableObjectStorage,
+	config: HistoryConfig,
+	logger: Logger = silentLogger
+): Promise<void> {
+	const history = new ChannelHistory(storage, config, logger);
+	await history.load();
+	histories.set(actor, history);
+}
+
+/**
+ * Gets the channel history of an actor, if the room enabled it
+ */
+export function getChannelHistory(actor: object): ChannelHistory | undefined {
+	return histories.get(actor);
+}
+
+/**
+ * Handles a reserved `replay` frame by resending the history entries the client missed.
+ * Only channels the connection is subscribed to are replayed.
+ * Channels joined at runtime carry their cursor in the `join` frame instead,
+ * since a replay frame could be handled before the join lands.
+ * Frame shape: `{ type: "replay", data: { cursors: { [channel]: lastSeenSeq } } }`
+ */
+export async function handleReplayFrame<TMeta extends ConnectionMeta, E>(
+	ctx: MessageContext<TMeta, E>,
+	frame: MessageFrame
+): Promise<void> {
+	const cursors = frame.data?.cursors;
+	if (!cursors || typeof cursors !== "object") {
+		getSessionLogger(ctx.actor, ctx.ws, ctx.meta).debug("[Verani:History] Ignoring replay frame without cursors");
+		return;
+	}
+
+	for (const [channel, after] of Object.entries(cursors)) {
+		if (typeof after === "number" && !(await replayChannel(ctx, channel, after))) {
+			return;
+		}
+	}
+}
+
+/**
+ * Resends the history entries of one channel recorded after a cursor.
+ * Does nothing unless the connection is subscribed to the channel and history is enabled for it.
+ * @param ctx - Message context of the requesting connection
+ * @param channel - Channel name
+ * @param after - Last sequence number the client has seen
+ * @returns false if the socket closed or could not be written to
+ */
+export async function replayChannel<TMeta extends ConnectionMeta, E>(
+	ctx: MessageContext<TMeta, E>,
+	channel: string,
+	after: number
+): Promise<boolean> {
+	const history = getChannelHistory(ctx.actor);
+	if (!history || !ctx.meta.channels.includes(channel) || !history.isEnabled(channel)) {
+		return true;
+	}
+
+	const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+	const entries = await history.since(channel, after);
+	logger.debug("[Verani:History] Replaying", entries.length, "messages on channel:", channel);
+
+	for (const entry of entries) {
+		if (ctx.ws.readyState !== WebSocket.OPEN) {
+			return false;
+		}
+		try {
+			ctx.ws.send(encodeFrame({ type: "event", channel, data: entry.data, seq: entry.seq }, ctx.actor.codec));
+		} catch (error) {
+			logger.error("[Verani] Failed to send replayed message:", error);
+			return false;
+		}
+	}
+	return true;
+}
@@ -0,0 +1,162 @@
+import { encodeFrame } from "../protocol";
+import type { InboxConfig, MessageFrame, Codec, ConnectionMeta } from "../types";
+import { deleteKeys } from "./helpers";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Default number of queued frames kept per user
+ */
+export const DEFAULT_INBOX_MAX_MESSAGES = 100;
+
+/**
+ * Default lifetime of a queued frame (7 days)
+ */
+export const DEFAULT_INBOX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Prefix of every inbox key in Durable Object storage
+ */
+const STORAGE_PREFIX = "verani:inbox:";
+
+/**
+ * A frame waiting for its user to reconnect
+ */
+interface InboxEntry {
+	frame: MessageFrame;
+	expiresAt: number;
+	/** Channel the connection must be subscribed to, for frames sent with sendToUser */
+	channel?: string;
+}
+
+/**
+ * Tie-breaker for frames queued within the same millisecond
+ */
+let sequence = 0;
+
+/**
+ * Storage key prefix of a user's inbox.
+ * User IDs are URI-encoded so one user's prefix can never match another user.
+ */
+function inboxPrefix(userId: string): string {
+	return `${STORAGE_PREFIX}${encodeURIComponent(userId)}:`;
+}
+
+/**
+ * Creates a storage key that sorts in queueing order
+ */
+function entryKey(userId: string): string {
+	sequence = (sequence + 1) % 1_000_000;
+	return inboxPrefix(userId) + String(Date.now()).padStart(15, "0") + "-" + String(sequence).padStart(6, "0");
+}
+
+/**
+ * Deletes expired entries and the oldest entries beyond the cap
+ */
+async function trimInbox(storage: DurableObjectStorage, config: InboxConfig | undefined, userId: string, logger: Logger): Promise<void> {
+	const maxMessages = config?.maxMessages ?? DEFAULT_INBOX_MAX_MESSAGES;
+	const entries = await storage.list<InboxEntry>({ prefix: inboxPrefix(userId) });
+	const now = Date.now();
+
+	const live: string[] = [];
+	const stale: string[] = [];
+	for (const [key, entry] of entries) {
+		(entry.expiresAt <= now ? stale : live).push(key);
+	}
+
+	// Keys are in queueing order, so the oldest entries come first
+	if (live.length > maxMessages) {
+		stale.push(...live.slice(0, live.length - maxMessages));
+	}
+
+	if (stale.length > 0) {
+		await deleteKeys(storage, stale);
+		logger.debug("[Verani:Inbox] Trimmed", stale.length, "entries", { userId });
+	}
+}
+
+/**
+ * Queues a frame for a user that has no session to receive it.
+ * Not awaited by callers, so sendToUser/emitToUser stay synchronous.
+ * @param storage - The actor's Durable Object storage
+ * @param config - Room inbox configuration (caps and expiry)
+ * @param userId - Recipient user ID
+ * @param frame - Frame to deliver on the user's next connection
+ * @param channel - Channel the receiving connection must be subscribed to, or undefined for any connection
+ * @param logger - Logger of the actor
+ */
+export function queueInboxFrame(
+	storage: DurableObjectStorage,
+	config: InboxConfig | undefined,
+	userId: string,
+	frame: MessageFrame,
+	channel: string | undefined,
+	logger: Logger = silentLogger
+): void {
+	const entry: InboxEntry = {
+		frame,
+		expiresAt: Date.now() + (config?.ttlMs ?? DEFAULT_INBOX_TTL_MS)
+	};
+	if (channel !== undefined) {
+		entry.channel = channel;
+	}
+
+	storage.put(entryKey(userId), entry)
+		.then(() => trimInbox(storage, config, userId, logger))
+		.catch((error) => {
+			logger.error("[Verani] Failed to queue inbox frame:", error, { userId });
+		});
+	logger.debug("[Verani:Inbox] Queued frame for offline user", { userId });
+}
+
+/**
+ * Delivers a user's queued frames to a newly connected socket and removes them from storage.
+ * Channel frames the connection is not subscribed to stay queued for a later connection.
+ * @param storage - The actor's Durable Object storage
+ * @param ws - The user's new WebSocket
+ * @param meta - Metadata of the new connection
+ * @param codec - Wire format of the actor (default: JSON)
+ * @param logger - Logger of the session
+ * @returns Number of frames delivered
+ */
+export async function flushInbox(
+	storage: DurableObjectStorage,
+	ws: WebSocket,
+	meta: ConnectionMeta,
+	codec?: Codec,
+	logger: Logger = silentLogger
+): Promise<number> {
+	const entries = await storage.list<InboxEntry>({ prefix: inboxPrefix(meta.userId) });
+	if (entries.size === 0) {
+		return 0;
+	}
+
+	const now = Date.now();
+	const processed: string[] = [];
+	let delivered = 0;
+
+	for (const [key, entry] of entries) {
+		if (entry.channel !== undefined && entry.expiresAt > now && !meta.channels.includes(entry.channel)) {
+			continue;
+		}
+		if (entry.expiresAt > now) {
+			if (ws.readyState !== WebSocket.OPEN) {
+				break;
+			}
+			try {
+				ws.send(encodeFrame(entry.frame, codec));
+				delivered++;
+			} catch (error) {
+				logger.error("[Verani] Failed to deliver inbox frame:", error);
+				break;
+			}
+		}
+		processed.push(key);
+	}
+
+	if (processed.length > 0) {
+		await deleteKeys(storage, processed);
+	}
+
+	logger.debug("[Verani:Inbox] Delivered", delivered, "queued frames");
+	return delivered;
+}
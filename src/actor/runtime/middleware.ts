@@ -0,0 +1,36 @@
+import type { Middleware, MessageContext, ConnectionMeta } from "../types";
+
+/**
+ * Runs a message context through the room's middleware stack (Koa-style onion model)
+ * and calls the final dispatch function at the center.
+ *
+ * Each middleware may run code before and after `await next()`. Not calling `next()`
+ * short-circuits the pipeline, so the event is never dispatched. Errors thrown by a
+ * middleware or by the dispatch function propagate to the caller.
+ * @param middleware - Middleware stack in registration order
+ * @param ctx - Message context passed to every middleware
+ * @param dispatch - Final step that delivers the event to handlers
+ */
+export async function runMiddleware<TMeta extends ConnectionMeta, E>(
+	middleware: Middleware<TMeta, E>[],
+	ctx: MessageContext<TMeta, E>,
+	dispatch: () => Promise<void>
+): Promise<void> {
+	let lastIndex = -1;
+
+	const run = async (index: number): Promise<void> => {
+		if (index <= lastIndex) {
+			throw new Error("next() called multiple times in Verani middleware");
+		}
+		lastIndex = index;
+
+		if (index === middleware.length) {
+			await dispatch();
+			return;
+		}
+
+		await middleware[index](ctx, () => run(index + 1));
+	};
+
+	await run(0);
+}
@@ -0,0 +1,194 @@
+import type { RoomDefinition, ConnectionMeta, VeraniActor, BanEntry, BanOptions } from "../types";
+import { CloseCodes } from "../../shared/closeCodes";
+import { getUserSessions, deleteKeys } from "./helpers";
+import { onWebSocketDisconnect } from "./onWebSocketDisconnect";
+import { expireUserSuspendedSessions } from "./resume";
+import { flushDeferredDisconnects } from "./disconnectGrace";
+
+/**
+ * Storage key prefix of bans, keyed by user ID
+ */
+const BAN_PREFIX = "verani:ban:";
+
+/**
+ * Close reasons longer than this are rejected by WebSocket.close()
+ */
+const MAX_CLOSE_REASON_BYTES = 123;
+
+/**
+ * Shortens a close reason to the length WebSocket.close() accepts
+ */
+export function toCloseReason(reason: string): string {
+	const encoder = new TextEncoder();
+	while (encoder.encode(reason).length > MAX_CLOSE_REASON_BYTES) {
+		reason = reason.slice(0, -1);
+	}
+	return reason;
+}
+
+/**
+ * Closes connections and ends their sessions right away, like a dropped connection
+ * with that close code. Kicks and bans are never left resumable.
+ */
+async function closeSessions<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	sockets: WebSocket[],
+	code: number,
+	reason: string
+): Promise<void> {
+	for (const ws of sockets) {
+		if (ws.readyState === WebSocket.OPEN) {
+			try {
+				ws.close(code, toCloseReason(reason));
+			} catch (error) {
+				actor.logger.error("[Verani] Failed to close connection:", error);
+			}
+		}
+		await onWebSocketDisconnect(actor, room, ws, code);
+	}
+}
+
+/**
+ * Ends every session a user could come back to: suspended sessions and pending
+ * onDisconnect calls are run now, so neither a resume nor a reconnect undoes the removal
+ * @param clientId - Only end this client's session
+ */
+async function endLeftoverSessions<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	userId: string,
+	clientId?: string
+): Promise<void> {
+	if (room.resume) {
+		await expireUserSuspendedSessions(actor, room, userId, clientId);
+	}
+	await flushDeferredDisconnects(actor, room, userId, clientId);
+}
+
+/**
+ * Closes all sessions of a user, including suspended ones and those waiting for their onDisconnect grace period
+ * @param code - Close code (default: `CloseCodes.KICKED`)
+ * @returns Number of connections closed
+ */
+export async function disconnectUser<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	userId: string,
+	reason = "Disconnected by server",
+	code: number = CloseCodes.KICKED
+): Promise<number> {
+	const sockets = getUserSessions(actor.sessions, userId);
+	await closeSessions(actor, room, sockets, code, reason);
+	await endLeftoverSessions(actor, room, userId);
+
+	actor.logger.debug("[Verani:Moderation] Disconnected user:", userId, "connections:", sockets.length, "code:", code);
+	return sockets.length;
+}
+
+/**
+ * Closes the session of a single client
+ * @param code - Close code (default: `CloseCodes.KICKED`)
+ * @returns true if the client was connected
+ */
+export async function disconnectClient<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	clientId: string,
+	reason = "Disconnected by server",
+	code: number = CloseCodes.KICKED
+): Promise<boolean> {
+	for (const { ws, meta } of actor.sessions.values()) {
+		if (meta.clientId === clientId) {
+			await closeSessions(actor, room, [ws], code, reason);
+			await endLeftoverSessions(actor, room, meta.userId, clientId);
+			actor.logger.debug("[Verani:Moderation] Disconnected client:", clientId, "code:", code);
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Persists a ban and closes the user's sessions with `CloseCodes.BANNED`
+ * @returns Number of connections closed
+ */
+export async function banUser<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	userId: string,
+	opts: BanOptions = {}
+): Promise<number> {
+	const now = Date.now();
+	const ban: BanEntry = { userId, bannedAt: now };
+	if (opts.reason !== undefined) {
+		ban.reason = opts.reason;
+	}
+	if (opts.durationMs !== undefined) {
+		ban.expiresAt = now + opts.durationMs;
+	}
+	await actor.getStorage().put(BAN_PREFIX + userId, ban);
+
+	actor.logger.debug("[Verani:Moderation] Banned user:", userId, "until:", ban.expiresAt);
+	return disconnectUser(actor, room, userId, opts.reason ?? "Banned", CloseCodes.BANNED);
+}
+
+/**
+ * Lifts a ban
+ * @returns true if the user was banned
+ */
+export async function unbanUser<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	userId: string
+): Promise<boolean> {
+	const ban = await getActiveBan(actor, userId);
+	if (!ban) {
+		return false;
+	}
+
+	await actor.getStorage().delete(BAN_PREFIX + userId);
+	actor.logger.debug("[Verani:Moderation] Unbanned user:", userId);
+	return true;
+}
+
+/**
+ * Gets the ban of a user, dropping it if it has expired
+ * @returns The ban, or undefined if the user may connect
+ */
+export async function getActiveBan<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	userId: string
+): Promise<BanEntry | undefined> {
+	const key = BAN_PREFIX + userId;
+	const ban = await actor.getStorage().get<BanEntry>(key);
+	if (ban?.expiresAt !== undefined && ban.expiresAt <= Date.now()) {
+		await actor.getStorage().delete(key);
+		return undefined;
+	}
+	return ban;
+}
+
+/**
+ * Lists active bans, oldest first, dropping expired ones
+ */
+export async function listBans<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>
+): Promise<BanEntry[]> {
+	const storage = actor.getStorage();
+	const bans = await storage.list<BanEntry>({ prefix: BAN_PREFIX });
+	const now = Date.now();
+	const active: BanEntry[] = [];
+	const expired: string[] = [];
+	for (const [key, ban] of bans) {
+		if (ban.expiresAt !== undefined && ban.expiresAt <= now) {
+			expired.push(key);
+		} else {
+			active.push(ban);
+		}
+	}
+
+	if (expired.length > 0) {
+		await deleteKeys(storage, expired);
+	}
+	return active.sort((a, b) => a.bannedAt - b.bannedAt);
+}
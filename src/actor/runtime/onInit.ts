@@ -1,4 +1,11 @@
 import { restoreSessions } from "../attachment";
+import { initChannelHistory } from "./history";
+import { initPresence } from "./presence";
+import { initSharedState } from "./state";
+import { isSweepEnabled, ensureSweep } from "./sweep";
+import { enableAutoResponse } from "./configuration";
+import { getDurableObjectState } from "./helpers";
+import { initTelemetry, getTelemetry } from "./telemetry";
 import type { RoomDefinition, ConnectionMeta, VeraniActor } from "../types";
 
 /**
@@ -9,7 +16,11 @@ export async function onInit<TMeta extends ConnectionMeta, E>(
 	actor: VeraniActor<TMeta, E>,
 	room: RoomDefinition<TMeta, E>
 ): Promise<void> {
-	console.debug("[Verani:ActorRuntime] onInit called");
+	const startTime = Date.now();
+	actor.logger.debug("[Verani:ActorRuntime] onInit called");
+
+	// Set up telemetry first so that everything below can be recorded
+	initTelemetry(actor, room);
 
 	// Rebuild event handlers from static storage (survives hibernation)
 	// This MUST happen every time the Actor wakes up to restore handlers
@@ -17,9 +28,28 @@ export async function onInit<TMeta extends ConnectionMeta, E>(
 	if (room.eventEmitter && room._staticHandlers) {
 		try {
 			room.eventEmitter.rebuildHandlers(room._staticHandlers);
-			console.debug("[Verani:ActorRuntime] Event handlers rebuilt from static storage");
+			actor.logger.debug("[Verani:ActorRuntime] Event handlers rebuilt from static storage, events:", room._staticHandlers.size);
+		} catch (error) {
+			actor.logger.error("[Verani] Failed to rebuild event handlers:", error);
+		}
+	}
+
+	// Answer pings without waking the actor from hibernation
+	if (room.autoResponse) {
+		try {
+			enableAutoResponse(getDurableObjectState(actor));
+			actor.logger.debug("[Verani:ActorRuntime] Automatic ping/pong responses enabled");
 		} catch (error) {
-			console.error("[Verani] Failed to rebuild event handlers:", error);
+			actor.logger.error("[Verani] Failed to enable automatic ping responses:", error);
+		}
+	}
+
+	// Load channel history counters before any broadcast can happen
+	if (room.history) {
+		try {
+			await initChannelHistory(actor, actor.getStorage(), room.history, actor.logger);
+		} catch (error) {
+			actor.logger.error("[Verani] Failed to load channel history:", error);
 		}
 	}
 
@@ -27,24 +57,57 @@ export async function onInit<TMeta extends ConnectionMeta, E>(
 	let restoreError: Error | undefined;
 	try {
 		restoreSessions(actor);
-		console.debug("[Verani:ActorRuntime] Sessions restored, count:", actor.sessions.size);
+		actor.logger.debug("[Verani:ActorRuntime] Sessions restored, count:", actor.sessions.size);
 	} catch (error) {
 		restoreError = error as Error;
-		console.error("[Verani] Failed to restore sessions:", error);
+		actor.logger.error("[Verani] Failed to restore sessions:", error);
+	}
+
+	// Load presence once sessions are known, so connections lost meanwhile can be pruned
+	if (room.presence) {
+		try {
+			await initPresence(actor, room.presence);
+		} catch (error) {
+			actor.logger.error("[Verani] Failed to load presence:", error);
+		}
+	}
+
+	// Load shared state before any hook can read or update it
+	if (room.state) {
+		try {
+			await initSharedState(actor, room.state);
+		} catch (error) {
+			actor.logger.error("[Verani] Failed to load shared state:", error);
+		}
+	}
+
+	// Keep sweeping the restored sessions
+	if (isSweepEnabled(room)) {
+		try {
+			await ensureSweep(actor, room);
+		} catch (error) {
+			actor.logger.error("[Verani] Failed to start session sweep:", error);
+		}
 	}
 
 	// Always attempt to call onHibernationRestore if defined, even if restoration partially failed
 	// This allows user code to handle partial restoration scenarios
+	let hookError: unknown;
 	if (room.onHibernationRestore && actor.sessions.size > 0) {
 		try {
-			console.debug("[Verani:ActorRuntime] Calling onHibernationRestore hook");
+			actor.logger.debug("[Verani:ActorRuntime] Calling onHibernationRestore hook");
 			await room.onHibernationRestore(actor);
-			console.debug("[Verani:ActorRuntime] onHibernationRestore hook completed");
+			actor.logger.debug("[Verani:ActorRuntime] onHibernationRestore hook completed");
 		} catch (error) {
-			console.error("[Verani] Error in onHibernationRestore hook:", error);
+			hookError = error;
+			actor.logger.error("[Verani] Error in onHibernationRestore hook:", error);
 		}
 	} else if (room.onHibernationRestore && actor.sessions.size === 0 && !restoreError) {
-		console.debug("[Verani:ActorRuntime] Skipping onHibernationRestore - no sessions to restore");
+		actor.logger.debug("[Verani:ActorRuntime] Skipping onHibernationRestore - no sessions to restore");
 	}
-}
 
+	// Only a wake-up with live connections counts as a hibernation restore
+	if (actor.sessions.size > 0 || restoreError) {
+		getTelemetry(actor)?.restore({ startTime, sessions: actor.sessions.size, error: restoreError ?? hookError });
+	}
+}
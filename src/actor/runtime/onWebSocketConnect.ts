@@ -1,6 +1,18 @@
 import { storeAttachment } from "../attachment";
-import type { RoomDefinition, RoomContext, MessageContext, ConnectionMeta, VeraniActor, MessageFrame } from "../types";
+import type { RoomDefinition, RoomContext, ConnectionMeta, VeraniActor, MessageFrame } from "../types";
 import { createSocketEmit } from "./emit";
+import { flushInbox } from "./inbox";
+import { getIncompatibleProtocolVersion, sendWelcome, sendSession } from "./handshake";
+import { resumeSession } from "./resume";
+import { getActiveBan, toCloseReason } from "./moderation";
+import { endSession } from "./onWebSocketDisconnect";
+import { getDisconnectGraceMs, cancelDeferredDisconnect } from "./disconnectGrace";
+import { trackPresence } from "./presence";
+import { isSweepEnabled, ensureSweep } from "./sweep";
+import { getSessionLogger } from "./helpers";
+import { getTelemetry } from "./telemetry";
+import { PROTOCOL_VERSION } from "../../shared/types";
+import { CloseCodes, CloseError } from "../../shared/closeCodes";
 
 /**
  * Called when a new WebSocket connection is established
@@ -11,76 +23,136 @@ export async function onWebSocketConnect<TMeta extends ConnectionMeta, E>(
 	ws: WebSocket,
 	req: Request
 ): Promise<void> {
-	console.debug("[Verani:ActorRuntime] onWebSocketConnect called, url:", req.url);
+	actor.logger.debug("[Verani:ActorRuntime] onWebSocketConnect called, url:", req.url);
+	const startTime = Date.now();
 	let meta: TMeta | undefined;
+	let resumed = false;
+	let logger = actor.logger;
+
+	// Reject clients speaking an incompatible protocol before running any room code
+	const clientVersion = getIncompatibleProtocolVersion(req);
+	if (clientVersion !== null) {
+		actor.logger.debug("[Verani:ActorRuntime] Rejecting protocol version:", clientVersion, "server:", PROTOCOL_VERSION);
+		// The client version is not echoed back: close reasons are limited to 123 bytes
+		ws.close(CloseCodes.PROTOCOL_VERSION_MISMATCH, `Unsupported protocol version, server speaks ${PROTOCOL_VERSION}`);
+		return;
+	}
 
 	try {
+		// A valid resume token brings back the previous session instead of starting a new one
+		const resumedMeta = room.resume ? await resumeSession(actor, room.resume, req) : null;
+
 		// Extract metadata from request
-		if (room.extractMeta) {
+		if (resumedMeta) {
+			meta = resumedMeta;
+			resumed = true;
+		} else if (room.extractMeta) {
 			meta = await room.extractMeta(req) as TMeta;
-			console.debug("[Verani:ActorRuntime] Extracted metadata:", { userId: meta.userId, clientId: meta.clientId, channels: meta.channels });
 		} else {
 			meta = {
 				userId: "anonymous",
 				clientId: crypto.randomUUID(),
 				channels: ["default"]
 			} as unknown as TMeta;
-			console.debug("[Verani:ActorRuntime] Using default metadata:", meta);
+		}
+		logger = getSessionLogger(actor, ws, meta);
+		logger.debug("[Verani:ActorRuntime] Connection metadata, channels:", meta.channels, "resumed:", resumedMeta !== null);
+
+		// Banned users are refused; a suspended session they resume ends for good
+		const ban = await getActiveBan(actor, meta.userId);
+		if (ban) {
+			if (resumedMeta) {
+				await endSession(actor, room, ws, meta);
+			}
+			throw new CloseError(CloseCodes.BANNED, ban.reason ?? "Banned");
 		}
 
 		// Store attachment for hibernation survival
-		storeAttachment(ws, meta);
+		storeAttachment(ws, meta, logger);
 
-		// Create a temporary message context for emit API creation
-		const tempMessageCtx: MessageContext<TMeta, E> = {
-			actor,
-			ws,
-			meta,
-			frame: { type: "connect" }
-		};
+		// Complete the handshake before onConnect can emit anything
+		sendWelcome(actor, room, ws, meta);
+
+		// Coming back within the onDisconnect grace period cancels the pending call
+		const replacedMeta = !resumedMeta && getDisconnectGraceMs(room) > 0
+			? await cancelDeferredDisconnect(actor, meta.userId)
+			: null;
+		const reconnected = replacedMeta !== null;
 
 		// Call user-defined onConnect hook BEFORE adding to sessions map
 		// This prevents orphaned sessions if onConnect throws
-		if (room.onConnect) {
-			console.debug("[Verani:ActorRuntime] Calling user onConnect hook");
+		// A resumed session never disconnected as far as the room is concerned
+		if (room.onConnect && !resumedMeta) {
+			logger.debug("[Verani:ActorRuntime] Calling user onConnect hook, reconnected:", reconnected);
 			const ctx: RoomContext<TMeta, E> = {
 				actor,
 				ws,
 				meta,
-				emit: createSocketEmit(tempMessageCtx)
+				emit: createSocketEmit({ actor, ws, meta }),
+				reconnected
 			};
 			await room.onConnect(ctx);
-			console.debug("[Verani:ActorRuntime] User onConnect hook completed");
+			logger.debug("[Verani:ActorRuntime] User onConnect hook completed");
 		}
 
 		// Add to in-memory sessions ONLY after successful onConnect
 		actor.sessions.set(ws, { ws, meta });
-		console.debug("[Verani:ActorRuntime] Session added, total sessions:", actor.sessions.size);
+		logger.debug("[Verani:ActorRuntime] Session added, total sessions:", actor.sessions.size);
+
+		// Tell the client the identity it was given, now that the connection is accepted
+		await sendSession(actor, room, ws, meta, resumedMeta !== null);
+
+		// Announce the connection in its channels; a replaced connection hands over its place
+		trackPresence(actor, ws, meta, replacedMeta ?? undefined);
+
+		// Start the session sweep if this is the first connection
+		if (isSweepEnabled(room)) {
+			try {
+				await ensureSweep(actor, room);
+			} catch (error) {
+				logger.error("[Verani] Failed to schedule session sweep:", error);
+			}
+		}
+
+		// Deliver frames queued while the user was offline
+		// A failure here must not close an otherwise healthy connection
+		try {
+			const delivered = await flushInbox(actor.getStorage(), ws, meta, actor.codec, logger);
+			if (delivered > 0) {
+				logger.debug("[Verani:ActorRuntime] Flushed offline inbox, delivered:", delivered);
+			}
+		} catch (error) {
+			logger.error("[Verani] Failed to flush offline inbox:", error);
+		}
+
+		getTelemetry(actor)?.connect({ startTime, userId: meta.userId, clientId: meta.clientId, resumed });
 	} catch (error) {
-		console.error("[Verani] Error in onWebSocketConnect:", error);
+		getTelemetry(actor)?.connect({ startTime, userId: meta?.userId, clientId: meta?.clientId, resumed, error });
+
+		// A deliberate rejection closes with the room's own code and is not an error
+		if (error instanceof CloseError) {
+			logger.debug("[Verani:ActorRuntime] Connection rejected, code:", error.code, "reason:", error.reason);
+			ws.close(error.code, toCloseReason(error.reason));
+			return;
+		}
+		logger.error("[Verani] Error in onWebSocketConnect:", error);
 
 		// Call error handler if defined
 		if (room.onError && meta) {
 			try {
-				const tempMessageCtx: MessageContext<TMeta, E> = {
-					actor,
-					ws,
-					meta,
-					frame: { type: "error" }
-				};
 				await room.onError(error as Error, {
 					actor,
 					ws,
 					meta,
-					emit: createSocketEmit(tempMessageCtx)
+					emit: createSocketEmit({ actor, ws, meta })
 				});
 			} catch (errorHandlerError) {
-				console.error("[Verani] Error in onError handler:", errorHandlerError);
+				logger.error("[Verani] Error in onError handler:", errorHandlerError);
 			}
 		}
 
 		// Close connection on critical errors
-		ws.close(1011, "Internal server error");
+		ws.close(CloseCodes.SERVER_ERROR, "Internal server error");
 	}
 }
 
@@ -1,47 +1,130 @@
-import type { RoomDefinition, RoomContext, MessageContext, ConnectionMeta, VeraniActor, MessageFrame } from "../types";
+import type { RoomDefinition, RoomContext, ConnectionMeta, VeraniActor } from "../types";
 import { createSocketEmit } from "./emit";
+import { clearRateLimitBuckets } from "./rateLimit";
+import { suspendSession } from "./resume";
+import { getDisconnectGraceMs, deferDisconnect } from "./disconnectGrace";
+import { untrackPresence } from "./presence";
+import { dropStateSubscriber } from "./state";
+import { getSessionLogger } from "./helpers";
+import { getTelemetry } from "./telemetry";
+import { CloseCodes } from "../../shared/closeCodes";
+
+/**
+ * Close codes that never leave a resumable session: a deliberate client disconnect (1000),
+ * and removals the resume token must not undo
+ */
+const FINAL_CLOSE_CODES: ReadonlySet<number> = new Set([
+	1000,
+	CloseCodes.RATE_LIMITED,
+	CloseCodes.AUTH_EXPIRED,
+	CloseCodes.KICKED,
+	CloseCodes.BANNED
+]);
+
+/**
+ * Checks whether a close code ends the session for good, including the room's own rate limit close code
+ */
+function isFinalCloseCode<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>, closeCode: number): boolean {
+	return FINAL_CLOSE_CODES.has(closeCode) || closeCode === room.rateLimit?.closeCode;
+}
 
 /**
  * Called when a WebSocket connection is closed
+ * @param closeCode - Close code received from the client, if known
  */
 export async function onWebSocketDisconnect<TMeta extends ConnectionMeta, E>(
 	actor: VeraniActor<TMeta, E>,
 	room: RoomDefinition<TMeta, E>,
-	ws: WebSocket
+	ws: WebSocket,
+	closeCode?: number
 ): Promise<void> {
-	console.debug("[Verani:ActorRuntime] onWebSocketDisconnect called");
+	const startTime = Date.now();
+	let logger = actor.logger;
+	let meta: TMeta | undefined;
 	try {
 		const session = actor.sessions.get(ws);
+		meta = session?.meta;
 		if (session) {
-			console.debug("[Verani:ActorRuntime] Disconnecting session:", { userId: session.meta.userId, clientId: session.meta.clientId });
+			logger = getSessionLogger(actor, ws, session.meta);
 		}
+		logger.debug("[Verani:ActorRuntime] onWebSocketDisconnect called, code:", closeCode);
 
 		// Remove from sessions map
 		actor.sessions.delete(ws);
-		console.debug("[Verani:ActorRuntime] Session removed, remaining sessions:", actor.sessions.size);
-
-		// Call user-defined onDisconnect hook
-		if (session && room.onDisconnect) {
-			console.debug("[Verani:ActorRuntime] Calling user onDisconnect hook");
-			const tempMessageCtx: MessageContext<TMeta, E> = {
-				actor,
-				ws,
-				meta: session.meta,
-				frame: { type: "disconnect" }
-			};
-			const ctx: RoomContext<TMeta, E> = {
-				actor,
-				ws,
-				meta: session.meta,
-				emit: createSocketEmit(tempMessageCtx)
-			};
-			await room.onDisconnect(ctx);
-			console.debug("[Verani:ActorRuntime] User onDisconnect hook completed");
+		logger.debug("[Verani:ActorRuntime] Session removed, remaining sessions:", actor.sessions.size);
+
+		// Drop rate limit buckets that have refilled; draining ones outlive the connection
+		if (session && room.rateLimit) {
+			clearRateLimitBuckets(actor, room.rateLimit, session.meta);
 		}
+
+		if (!session) {
+			return;
+		}
+
+		// Clients subscribe to shared state again on every connection
+		dropStateSubscriber(actor, session.meta.clientId);
+
+		// Unexpected drops stay resumable; onDisconnect runs when the grace window ends
+		if (room.resume && (closeCode === undefined || !isFinalCloseCode(room, closeCode))) {
+			await suspendSession(actor, room.resume, ws, session.meta);
+		} else {
+			await endSession(actor, room, ws, session.meta);
+		}
+
+		getTelemetry(actor)?.disconnect({ startTime, userId: session.meta.userId, clientId: session.meta.clientId, code: closeCode });
 	} catch (error) {
-		console.error("[Verani] Error in onWebSocketDisconnect:", error);
+		logger.error("[Verani] Error in onWebSocketDisconnect:", error);
+		if (meta) {
+			getTelemetry(actor)?.disconnect({ startTime, userId: meta.userId, clientId: meta.clientId, code: closeCode, error });
+		}
 
 		// Error handler is not called here since we may not have session context
 	}
 }
 
+/**
+ * Ends a session for good: calls onDisconnect now, or after its grace period if one is configured
+ */
+export async function endSession<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	ws: WebSocket,
+	meta: TMeta
+): Promise<void> {
+	const graceMs = getDisconnectGraceMs(room);
+	if (graceMs > 0) {
+		await deferDisconnect(actor, graceMs, ws, meta);
+		return;
+	}
+
+	await runDisconnectHook(actor, room, ws, meta);
+}
+
+/**
+ * Removes a session that ended from presence and calls the user-defined onDisconnect hook
+ */
+export async function runDisconnectHook<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	ws: WebSocket,
+	meta: TMeta
+): Promise<void> {
+	untrackPresence(actor, meta);
+	const logger = getSessionLogger(actor, ws, meta);
+
+	const handler = typeof room.onDisconnect === "function" ? room.onDisconnect : room.onDisconnect?.handler;
+	if (!handler) {
+		return;
+	}
+
+	logger.debug("[Verani:ActorRuntime] Calling user onDisconnect hook");
+	const ctx: RoomContext<TMeta, E> = {
+		actor,
+		ws,
+		meta,
+		emit: createSocketEmit({ actor, ws, meta })
+	};
+	await handler(ctx);
+	logger.debug("[Verani:ActorRuntime] User onDisconnect hook completed");
+}
@@ -1,6 +1,17 @@
 import { decodeFrame, encodeFrame } from "../protocol";
 import type { RoomDefinition, MessageContext, MessageFrame, ConnectionMeta, VeraniActor } from "../types";
 import { createSocketEmit } from "./emit";
+import { isChannelFrame, handleChannelFrame } from "./channels";
+import { sendAck } from "./ack";
+import { sendError, createReject, toExposedError, UNHANDLED_EVENT } from "./error";
+import { validateEventData, createValidationError } from "./validation";
+import { runMiddleware } from "./middleware";
+import { enforceRateLimit } from "./rateLimit";
+import { REPLAY_FRAME_TYPE, handleReplayFrame } from "./history";
+import { isStateFrame, handleStateFrame } from "./state";
+import { markAlive } from "./sweep";
+import { getSessionLogger } from "./helpers";
+import { getTelemetry } from "./telemetry";
 
 /**
  * Called when a message is received from a WebSocket
@@ -12,73 +23,156 @@ export async function onWebSocketMessage<TMeta extends ConnectionMeta, E>(
 	raw: any
 ): Promise<void> {
 	let session: { ws: WebSocket; meta: TMeta } | undefined;
+	let logger = actor.logger;
 
 	try {
+		// Any frame, pings included, shows the connection is alive
+		markAlive(actor, room, ws);
+
 		// Decode the incoming frame
-		const frame = decodeFrame(raw);
+		const frame = decodeFrame(raw, actor.codec);
 
 		// Handle protocol-encoded ping messages
 		if (frame && frame.type === "ping") {
-			console.debug("[Verani:ActorRuntime] Received protocol-encoded ping, responding with pong");
+			logger.debug("[Verani:ActorRuntime] Received protocol-encoded ping, responding with pong");
 			// Respond immediately with protocol-encoded pong
 			if (ws.readyState === WebSocket.OPEN) {
 				try {
 					const pongFrame: MessageFrame = { type: "pong" };
-					ws.send(encodeFrame(pongFrame));
-					console.debug("[Verani:ActorRuntime] Sent protocol-encoded pong");
+					ws.send(encodeFrame(pongFrame, actor.codec));
+					logger.debug("[Verani:ActorRuntime] Sent protocol-encoded pong");
 				} catch (error) {
-					console.error("[Verani] Failed to send pong:", error);
+					logger.error("[Verani] Failed to send pong:", error);
 				}
 			}
 			return;
 		}
 
 		if (!frame || frame.type === "invalid") {
-			console.debug("[Verani:ActorRuntime] Invalid or unparseable frame, skipping");
+			logger.debug("[Verani:ActorRuntime] Invalid or unparseable frame, skipping");
 			return;
 		}
 
-		console.debug("[Verani:ActorRuntime] Message received, type:", frame.type, "channel:", frame.channel);
-
 		// Get session info
 		session = actor.sessions.get(ws);
 		if (!session) {
-			console.warn("[Verani] Received message from unknown session");
+			logger.warn("[Verani] Received message from unknown session");
 			return;
 		}
-		console.debug("[Verani:ActorRuntime] Session found:", { userId: session.meta.userId, clientId: session.meta.clientId });
+		logger = getSessionLogger(actor, ws, session.meta);
+		logger.debug("[Verani:ActorRuntime] Message received, type:", frame.type, "channel:", frame.channel);
 
-		// Create context with emit API
+		// Create context with emit and reject APIs
+		const { reject, isRejected } = createReject(ws, frame, actor.codec, logger);
 		const ctx: MessageContext<TMeta, E> = {
 			actor,
 			ws,
 			meta: session.meta,
 			frame,
-			emit: createSocketEmit({
-				actor,
-				ws,
-				meta: session.meta,
-				frame
-			} as MessageContext<TMeta, E>)
+			emit: createSocketEmit({ actor, ws, meta: session.meta }),
+			reject
+		};
+
+		// Frames sent with emitWithAck get exactly one reply: an ack or an error frame
+		let answered = false;
+		const ack = (data?: unknown): void => {
+			answered = true;
+			if (frame.id !== undefined && !isRejected()) {
+				sendAck(ws, frame.id, data, actor.codec, logger);
+			}
 		};
 
-		// Check if event handlers are registered for this event type
-		const eventEmitter = room.eventEmitter;
-		const hasEventHandlers = eventEmitter && (eventEmitter as any).hasHandlers && (eventEmitter as any).hasHandlers(frame.type);
-
-		if (hasEventHandlers) {
-			// Use event handlers (socket.io-like)
-			console.debug("[Verani:ActorRuntime] Using event handlers for event:", frame.type);
-			await eventEmitter!.emit(frame.type, ctx, frame.data || {});
-			console.debug("[Verani:ActorRuntime] Event handlers completed");
-		} else if (room.onMessage) {
-			// Fall back to onMessage hook
-			console.debug("[Verani:ActorRuntime] Calling user onMessage hook");
-			await room.onMessage(ctx, frame);
-			console.debug("[Verani:ActorRuntime] User onMessage hook completed");
+		// Enforce rate limits before anything else runs for this frame
+		if (room.rateLimit && !(await enforceRateLimit(room.rateLimit, ctx))) {
+			return;
+		}
+
+		// Handle reserved join/leave frames before dispatching to user handlers
+		if (isChannelFrame(frame)) {
+			await handleChannelFrame(room, ctx, frame);
+			return;
+		}
+
+		// Handle reserved replay frames (missed channel history after a reconnect)
+		if (frame.type === REPLAY_FRAME_TYPE) {
+			await handleReplayFrame(ctx, frame);
+			return;
+		}
+
+		// Handle reserved shared state subscription frames
+		if (isStateFrame(frame)) {
+			handleStateFrame(room, ctx, frame);
+			return;
+		}
+
+		// Dispatch to event handlers or the onMessage fallback
+		const dispatch = async (): Promise<void> => {
+			// Check if event handlers are registered for this event type
+			const eventEmitter = room.eventEmitter;
+			const hasEventHandlers = eventEmitter && (eventEmitter as any).hasHandlers && (eventEmitter as any).hasHandlers(frame.type);
+
+			if (hasEventHandlers) {
+				// Use event handlers (socket.io-like)
+				logger.debug("[Verani:ActorRuntime] Using event handlers for event:", frame.type);
+				let data = frame.data;
+
+				// Validate the payload as sent if a schema was registered for this event
+				const schema = room._schemas?.get(frame.type);
+				if (schema) {
+					const result = await validateEventData(schema, data);
+					if (!result.success) {
+						logger.debug("[Verani:ActorRuntime] Payload failed validation for event:", frame.type);
+						sendError(ws, createValidationError(frame.type, result.issues), frame.id, actor.codec, logger);
+						answered = true;
+						return;
+					}
+					data = result.value;
+				} else if (data === undefined) {
+					// Falsy payloads (0, false, "", null) reach handlers as sent; only a missing one becomes {}
+					data = {};
+				}
+
+				const reply = await eventEmitter!.emit(frame.type, ctx, data);
+				logger.debug("[Verani:ActorRuntime] Event handlers completed");
+
+				// Reply to emitWithAck requests with the handler's return value, unless a handler rejected
+				ack(reply);
+			} else if (room.onMessage) {
+				// Fall back to onMessage hook
+				logger.debug("[Verani:ActorRuntime] Calling user onMessage hook");
+				await room.onMessage(ctx, frame);
+				logger.debug("[Verani:ActorRuntime] User onMessage hook completed");
+				ack();
+			}
+		};
+
+		// Run through the room's middleware stack, if any
+		const telemetry = getTelemetry(actor);
+		const startTime = Date.now();
+		const { userId, clientId } = session.meta;
+		try {
+			if (room._middleware && room._middleware.length > 0) {
+				await runMiddleware(room._middleware, ctx, dispatch);
+			} else {
+				await dispatch();
+			}
+		} catch (error) {
+			telemetry?.event({ startTime, event: frame.type, channel: frame.channel, userId, clientId, error });
+			// Tell the sender if the room exposes errors or is waiting for an ack
+			const exposed = toExposedError(room, error, ctx);
+			if (exposed) {
+				ctx.reject(exposed.code, exposed.message);
+			}
+			throw error;
+		}
+		telemetry?.event({ startTime, event: frame.type, channel: frame.channel, userId, clientId });
+
+		// No handler for the event, or middleware stopped it: don't leave an ack pending
+		if (frame.id !== undefined && !answered) {
+			ctx.reject(UNHANDLED_EVENT, "Event was not handled");
 		}
 	} catch (error) {
-		console.error("[Verani] Error in onWebSocketMessage:", error);
+		logger.error("[Verani] Error in onWebSocketMessage:", error);
 
 		// Call error handler if defined
 		if (room.onError && session) {
@@ -87,15 +181,10 @@ export async function onWebSocketMessage<TMeta extends ConnectionMeta, E>(
 					actor,
 					ws,
 					meta: session.meta,
-					emit: createSocketEmit({
-						actor,
-						ws,
-						meta: session.meta,
-						frame: { type: "error" }
-					} as MessageContext<TMeta, E>)
+					emit: createSocketEmit({ actor, ws, meta: session.meta })
 				});
 			} catch (errorHandlerError) {
-				console.error("[Verani] Error in onError handler:", errorHandlerError);
+				logger.error("[Verani] Error in onError handler:", errorHandlerError);
 			}
 		}
 	}
@@ -0,0 +1,438 @@
+import { encodeFrame } from "../protocol";
+import type { ActorPresence, ConnectionMeta, PresenceConfig, PresenceUser, VeraniActor } from "../types";
+import type { PresenceFrameData } from "../../shared/types";
+import { PRESENCE_FRAME_TYPE } from "../../shared/handshake";
+import { listSuspendedClientIds } from "./resume";
+import { listPendingDisconnectClientIds } from "./disconnectGrace";
+import { silentLogger, type Logger } from "../../shared/logger";
+import { createActorSlot } from "./helpers";
+
+/**
+ * Prefix of every presence key in Durable Object storage:
+ * `verani:presence:<channel>:<userId>`, both URI-encoded
+ */
+const STORAGE_PREFIX = "verani:presence:";
+
+/**
+ * A user's presence in one channel, as stored
+ */
+interface PresenceEntry {
+	userId: string;
+	clientIds: string[];
+	state: Record<string, unknown>;
+	joinedAt: number;
+	lastSeen: number;
+}
+
+/**
+ * A diff to broadcast on a channel
+ */
+type PresenceChange = [channel: string, data: PresenceFrameData];
+
+function entryKey(channel: string, userId: string): string {
+	return `${STORAGE_PREFIX}${encodeURIComponent(channel)}:${encodeURIComponent(userId)}`;
+}
+
+function toPresenceUser(entry: PresenceEntry): PresenceUser {
+	return {
+		userId: entry.userId,
+		devices: entry.clientIds.length,
+		state: entry.state,
+		joinedAt: entry.joinedAt,
+		lastSeen: entry.lastSeen
+	};
+}
+
+/**
+ * Per-channel presence backed by Durable Object storage.
+ * Entries are loaded once in onInit so that reads stay synchronous; writes are not awaited.
+ */
+export class PresenceTracker<TMeta extends ConnectionMeta> {
+	private channels = new Map<string, Map<string, PresenceEntry>>();
+
+	constructor(
+		private storage: DurableObjectStorage,
+		private config: PresenceConfig<TMeta>,
+		private logger: Logger = silentLogger
+	) {}
+
+	/**
+	 * Loads all entries from storage.
+	 * Must be awaited before presence is read or changed after the actor wakes up.
+	 */
+	async load(): Promise<void> {
+		const entries = await this.storage.list<PresenceEntry>({ prefix: STORAGE_PREFIX });
+		this.channels.clear();
+		for (const [key, entry] of entries) {
+			const channel = decodeURIComponent(key.slice(STORAGE_PREFIX.length).split(":")[0]);
+			this.members(channel).set(entry.userId, entry);
+		}
+		this.logger.debug("[Verani:Presence] Loaded presence for", this.channels.size, "channels");
+	}
+
+	/**
+	 * Checks whether presence is tracked on a channel
+	 */
+	isTracked(channel: string): boolean {
+		const channels = this.config.channels ?? "*";
+		return channels === "*" || channels.includes(channel);
+	}
+
+	/**
+	 * Lists the users present in a channel
+	 */
+	list(channel: string): PresenceUser[] {
+		return Array.from(this.channels.get(channel)?.values() ?? [], toPresenceUser);
+	}
+
+	/**
+	 * Gets a user's presence in a channel
+	 */
+	get(channel: string, userId: string): PresenceUser | undefined {
+		const entry = this.channels.get(channel)?.get(userId);
+		return entry ? toPresenceUser(entry) : undefined;
+	}
+
+	/**
+	 * Adds a connection to a channel
+	 * @param replacedClientId - Connection this one takes over from; it is dropped without a leave
+	 * @returns The diff to broadcast, or null if other members see no change
+	 */
+	add(channel: string, meta: TMeta, replacedClientId?: string): PresenceFrameData | null {
+		const members = this.members(channel);
+		const entry = members.get(meta.userId);
+		const now = Date.now();
+
+		if (!entry) {
+			const created: PresenceEntry = {
+				userId: meta.userId,
+				clientIds: [meta.clientId],
+				state: this.config.state?.(meta) ?? {},
+				joinedAt: now,
+				lastSeen: now
+			};
+			members.set(meta.userId, created);
+			this.save(channel, created);
+			return { action: "join", user: toPresenceUser(created) };
+		}
+
+		const devices = entry.clientIds.length;
+		entry.clientIds = entry.clientIds.filter((id) => id !== meta.clientId && id !== replacedClientId);
+		entry.clientIds.push(meta.clientId);
+
+		// A resumed or replacing connection keeps the device count unchanged
+		if (entry.clientIds.length === devices) {
+			this.save(channel, entry);
+			return null;
+		}
+
+		entry.lastSeen = now;
+		this.save(channel, entry);
+		return { action: "update", user: toPresenceUser(entry) };
+	}
+
+	/**
+	 * Removes a connection from a channel
+	 * @returns The diff to broadcast, or null if the connection was not present
+	 */
+	remove(channel: string, userId: string, clientId: string): PresenceFrameData | null {
+		const members = this.channels.get(channel);
+		const entry = members?.get(userId);
+		if (!members || !entry || !entry.clientIds.includes(clientId)) {
+			return null;
+		}
+
+		const now = Date.now();
+		entry.clientIds = entry.clientIds.filter((id) => id !== clientId);
+		entry.lastSeen = now;
+
+		if (entry.clientIds.length === 0) {
+			members.delete(userId);
+			if (members.size === 0) {
+				this.channels.delete(channel);
+			}
+			this.forget(channel, userId);
+			return { action: "leave", userId, lastSeen: now };
+		}
+
+		this.save(channel, entry);
+		return { action: "update", user: toPresenceUser(entry) };
+	}
+
+	/**
+	 * Removes a connection from every channel it is present in
+	 */
+	removeClient(userId: string, clientId: string): PresenceChange[] {
+		const changes: PresenceChange[] = [];
+		for (const channel of Array.from(this.channels.keys())) {
+			const data = this.remove(channel, userId, clientId);
+			if (data) {
+				changes.push([channel, data]);
+			}
+		}
+		return changes;
+	}
+
+	/**
+	 * Removes every connection whose clientId is not in `keep`
+	 */
+	prune(keep: Set<string>): PresenceChange[] {
+		const changes: PresenceChange[] = [];
+		for (const [channel, members] of Array.from(this.channels)) {
+			for (const entry of Array.from(members.values())) {
+				for (const clientId of entry.clientIds.filter((id) => !keep.has(id))) {
+					const data = this.remove(channel, entry.userId, clientId);
+					if (data) {
+						changes.push([channel, data]);
+					}
+				}
+			}
+		}
+		return changes;
+	}
+
+	/**
+	 * Merges fields into a user's state in every channel they are present in.
+	 * Fields set to undefined are removed.
+	 */
+	setState(userId: string, state: Record<string, unknown>): PresenceChange[] {
+		const changes: PresenceChange[] = [];
+		for (const [channel, members] of this.channels) {
+			const entry = members.get(userId);
+			if (!entry) {
+				continue;
+			}
+
+			const merged: Record<string, unknown> = { ...entry.state, ...state };
+			for (const [field, value] of Object.entries(merged)) {
+				if (value === undefined) {
+					delete merged[field];
+				}
+			}
+			entry.state = merged;
+			entry.lastSeen = Date.now();
+			this.save(channel, entry);
+			changes.push([channel, { action: "update", user: toPresenceUser(entry) }]);
+		}
+		return changes;
+	}
+
+	private members(channel: string): Map<string, PresenceEntry> {
+		let members = this.channels.get(channel);
+		if (!members) {
+			members = new Map();
+			this.channels.set(channel, members);
+		}
+		return members;
+	}
+
+	private save(channel: string, entry: PresenceEntry): void {
+		this.storage.put(entryKey(channel, entry.userId), entry).catch((error) => {
+			this.logger.error("[Verani] Failed to store presence:", error);
+		});
+	}
+
+	private forget(channel: string, userId: string): void {
+		this.storage.delete(entryKey(channel, userId)).catch((error) => {
+			this.logger.error("[Verani] Failed to delete presence:", error);
+		});
+	}
+}
+
+/**
+ * Presence tracker of each actor instance
+ */
+const trackers = createActorSlot<PresenceTracker<any>>();
+
+/**
+ * Gets the presence tracker of an actor, if the room enabled presence
+ */
+export function getPresenceTracker(actor: object): PresenceTracker<any> | undefined {
+	return trackers.get(actor);
+}
+
+/**
+ * Creates (or replaces) the presence tracker of an actor and loads its entries.
+ * Connections that no longer exist (e.g. lost when the actor was evicted) are removed;
+ * suspended and grace-period sessions are kept. Must run after sessions are restored.
+ */
+export async function initPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	config: PresenceConfig<TMeta>
+): Promise<void> {
+	const tracker = new PresenceTracker<TMeta>(actor.getStorage(), config, actor.logger);
+	await tracker.load();
+	trackers.set(actor, tracker);
+
+	const keep = new Set<string>();
+	for (const { meta } of actor.sessions.values()) {
+		keep.add(meta.clientId);
+	}
+	for (const clientId of await listSuspendedClientIds(actor)) {
+		keep.add(clientId);
+	}
+	for (const clientId of await listPendingDisconnectClientIds(actor)) {
+		keep.add(clientId);
+	}
+
+	const changes = tracker.prune(keep);
+	if (changes.length > 0) {
+		actor.logger.debug("[Verani:Presence] Pruned", changes.length, "stale presence entries");
+	}
+	broadcastChanges(actor, changes);
+}
+
+/**
+ * Sends a presence frame to every open connection subscribed to a channel
+ * @param except - Connection to skip
+ */
+function broadcastPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	channel: string,
+	data: PresenceFrameData,
+	except?: WebSocket
+): void {
+	const encoded = encodeFrame({ type: PRESENCE_FRAME_TYPE, channel, data }, actor.codec);
+	for (const { ws, meta } of actor.sessions.values()) {
+		if (ws === except || ws.readyState !== WebSocket.OPEN || !meta.channels.includes(channel)) {
+			continue;
+		}
+		try {
+			ws.send(encoded);
+		} catch (error) {
+			actor.logger.error("[Verani] Failed to send presence:", error);
+		}
+	}
+}
+
+function broadcastChanges<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	changes: PresenceChange[]
+): void {
+	for (const [channel, data] of changes) {
+		broadcastPresence(actor, channel, data);
+	}
+}
+
+/**
+ * Adds a connection to one channel, tells the other members and sends it the member list
+ */
+function joinPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	tracker: PresenceTracker<TMeta>,
+	ws: WebSocket,
+	meta: TMeta,
+	channel: string,
+	replacedClientId?: string
+): void {
+	if (!tracker.isTracked(channel)) {
+		return;
+	}
+
+	const data = tracker.add(channel, meta, replacedClientId);
+	if (data) {
+		broadcastPresence(actor, channel, data, ws);
+	}
+
+	if (ws.readyState !== WebSocket.OPEN) {
+		return;
+	}
+	try {
+		const sync: PresenceFrameData = { action: "sync", users: tracker.list(channel) };
+		ws.send(encodeFrame({ type: PRESENCE_FRAME_TYPE, channel, data: sync }, actor.codec));
+	} catch (error) {
+		actor.logger.error("[Verani] Failed to send presence sync:", error);
+	}
+}
+
+/**
+ * Adds an accepted connection to presence in its tracked channels
+ * @param replaced - Meta of a connection this one replaces (reconnect within the onDisconnect
+ * grace period); it leaves silently where the new connection takes its place
+ */
+export function trackPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	ws: WebSocket,
+	meta: TMeta,
+	replaced?: TMeta
+): void {
+	const tracker = getPresenceTracker(actor);
+	if (!tracker) {
+		return;
+	}
+
+	for (const channel of meta.channels) {
+		joinPresence(actor, tracker, ws, meta, channel, replaced?.clientId);
+	}
+
+	// Channels the replaced connection was in but this one is not
+	if (replaced) {
+		broadcastChanges(actor, tracker.removeClient(replaced.userId, replaced.clientId));
+	}
+}
+
+/**
+ * Adds a connection to presence in a channel it joined at runtime
+ */
+export function trackChannelPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	ws: WebSocket,
+	meta: TMeta,
+	channel: string
+): void {
+	const tracker = getPresenceTracker(actor);
+	if (tracker) {
+		joinPresence(actor, tracker, ws, meta, channel);
+	}
+}
+
+/**
+ * Removes a connection from presence in a channel it left at runtime
+ */
+export function untrackChannelPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	meta: TMeta,
+	channel: string
+): void {
+	const data = getPresenceTracker(actor)?.remove(channel, meta.userId, meta.clientId);
+	if (data) {
+		broadcastPresence(actor, channel, data);
+	}
+}
+
+/**
+ * Removes a session that ended for good from presence in every channel
+ */
+export function untrackPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	meta: TMeta
+): void {
+	const tracker = getPresenceTracker(actor);
+	if (tracker) {
+		broadcastChanges(actor, tracker.removeClient(meta.userId, meta.clientId));
+	}
+}
+
+/**
+ * Creates the `actor.presence` API
+ */
+export function createActorPresence<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>
+): ActorPresence {
+	return {
+		list(channel: string): PresenceUser[] {
+			return getPresenceTracker(actor)?.list(channel) ?? [];
+		},
+
+		get(channel: string, userId: string): PresenceUser | undefined {
+			return getPresenceTracker(actor)?.get(channel, userId);
+		},
+
+		update(userId: string, state: Record<string, unknown>): void {
+			const tracker = getPresenceTracker(actor);
+			if (tracker) {
+				broadcastChanges(actor, tracker.setState(userId, state));
+			}
+		}
+	};
+}
@@ -0,0 +1,270 @@
+import type { RateLimitConfig, TokenBucketConfig, MessageContext, ConnectionMeta, VeraniActor } from "../types";
+import { sendError } from "./error";
+import { getSessionLogger, getUserSessions, deleteKeys, createActorSlot } from "./helpers";
+import { scheduleAlarm } from "./alarms";
+import { CloseCodes } from "../../shared/closeCodes";
+
+/**
+ * Error code sent to connections that exceed a rate limit
+ */
+export const RATE_LIMITED = "RATE_LIMITED";
+
+/**
+ * Default close code used by the "disconnect" policy
+ */
+export const DEFAULT_RATE_LIMIT_CLOSE_CODE = CloseCodes.RATE_LIMITED;
+
+/**
+ * Prefix of every rate limit key in Durable Object storage
+ */
+const STORAGE_PREFIX = "verani:ratelimit:";
+
+/**
+ * Persisted token bucket state
+ */
+interface BucketState {
+	tokens: number;
+	updatedAt: number;
+	/** When the bucket is full again; from then on it is the same as no bucket */
+	refilledAt?: number;
+}
+
+/**
+ * In-memory bucket cache per actor instance, holding the load of each bucket.
+ * Emptied when the actor hibernates; buckets are then reloaded lazily from storage.
+ */
+const bucketCache = createActorSlot<Map<string, Promise<BucketState>>>();
+
+function getCache(actor: object): Map<string, Promise<BucketState>> {
+	return bucketCache.ensure(actor, () => new Map());
+}
+
+/**
+ * Loads a bucket from the cache, falling back to storage after hibernation.
+ * The pending load is cached, so frames arriving during it share one bucket
+ * instead of each starting from a stored (or full) one.
+ */
+function loadBucket(
+	actor: VeraniActor<any, any>,
+	key: string,
+	config: TokenBucketConfig,
+	now: number
+): Promise<BucketState> {
+	const cache = getCache(actor);
+	let bucket = cache.get(key);
+	if (!bucket) {
+		const loading = actor.getStorage().get<BucketState>(key)
+			.then((stored) => stored ?? { tokens: config.capacity, updatedAt: now });
+		// A failed load is retried by the next frame
+		loading.catch(() => {
+			if (cache.get(key) === loading) {
+				cache.delete(key);
+			}
+		});
+		cache.set(key, loading);
+		bucket = loading;
+	}
+	return bucket;
+}
+
+/**
+ * Refills a bucket for the elapsed time and takes one token if available
+ * @returns 0 if a token was taken, otherwise the milliseconds until one is available
+ */
+function take(bucket: BucketState, config: TokenBucketConfig, now: number): number {
+	const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+	bucket.tokens = Math.min(config.capacity, bucket.tokens + elapsed * config.refillPerSecond);
+	bucket.updatedAt = now;
+
+	let retryAfterMs = 0;
+	if (bucket.tokens >= 1) {
+		bucket.tokens -= 1;
+	} else {
+		retryAfterMs = Math.ceil(((1 - bucket.tokens) / config.refillPerSecond) * 1000);
+	}
+
+	bucket.refilledAt = now + Math.ceil(((config.capacity - bucket.tokens) / config.refillPerSecond) * 1000);
+	return retryAfterMs;
+}
+
+/**
+ * Checks whether a bucket has refilled, so dropping it cannot hand out extra tokens
+ */
+function isRefilled(bucket: BucketState, now: number): boolean {
+	return (bucket.refilledAt ?? bucket.updatedAt) <= now;
+}
+
+/**
+ * Storage key of a connection-scoped bucket
+ */
+function connectionKey(clientId: string): string {
+	return `${STORAGE_PREFIX}conn:${clientId}`;
+}
+
+/**
+ * Storage key of a user-scoped bucket
+ */
+function userKey(userId: string): string {
+	return `${STORAGE_PREFIX}user:${userId}`;
+}
+
+/**
+ * Storage key of a per-event bucket (scoped to a connection)
+ */
+function eventKey(clientId: string, event: string): string {
+	return `${STORAGE_PREFIX}event:${clientId}:${event}`;
+}
+
+/**
+ * Checks every configured bucket for an incoming frame and consumes one token from each.
+ * All applicable buckets are charged, even if an earlier one is already empty,
+ * so a flood of messages cannot drain one limit while being refused by another.
+ * @returns 0 if the frame is allowed, otherwise the milliseconds until it would be
+ */
+async function consume<TMeta extends ConnectionMeta, E>(
+	config: RateLimitConfig,
+	ctx: MessageContext<TMeta, E>
+): Promise<number> {
+	const { actor, meta, frame } = ctx;
+	const now = Date.now();
+
+	const checks: Array<[string, TokenBucketConfig]> = [];
+	if (config.perConnection) {
+		checks.push([connectionKey(meta.clientId), config.perConnection]);
+	}
+	if (config.perUser) {
+		checks.push([userKey(meta.userId), config.perUser]);
+	}
+	const eventConfig = config.perEvent?.[frame.type];
+	if (eventConfig) {
+		checks.push([eventKey(meta.clientId, frame.type), eventConfig]);
+	}
+
+	let retryAfterMs = 0;
+	const updates: Record<string, BucketState> = {};
+	for (const [key, bucketConfig] of checks) {
+		const bucket = await loadBucket(actor, key, bucketConfig, now);
+		retryAfterMs = Math.max(retryAfterMs, take(bucket, bucketConfig, now));
+		updates[key] = bucket;
+	}
+
+	if (checks.length > 0) {
+		// Persist so limits survive hibernation; not awaited to keep the message path fast
+		actor.getStorage().put(updates).catch((error) => {
+			actor.logger.error("[Verani] Failed to persist rate limit buckets:", error);
+		});
+	}
+
+	return retryAfterMs;
+}
+
+/**
+ * Enforces the room's rate limits for an incoming frame and applies the configured policy
+ * @param config - Room rate limit configuration
+ * @param ctx - Message context of the incoming frame
+ * @returns true if the frame may be dispatched, false if it was rejected
+ */
+export async function enforceRateLimit<TMeta extends ConnectionMeta, E>(
+	config: RateLimitConfig,
+	ctx: MessageContext<TMeta, E>
+): Promise<boolean> {
+	const retryAfterMs = await consume(config, ctx);
+	if (retryAfterMs === 0) {
+		return true;
+	}
+
+	const policy = config.policy ?? "warn";
+	const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+	logger.debug("[Verani:RateLimit] Limit exceeded:", { event: ctx.frame.type, policy });
+
+	// Frames sent with an ack are always answered, so the client does not wait for a timeout
+	if (policy === "warn" || (policy === "drop" && ctx.frame.id !== undefined)) {
+		sendError(ctx.ws, {
+			code: RATE_LIMITED,
+			message: "Rate limit exceeded",
+			event: ctx.frame.type,
+			retryAfterMs
+		}, ctx.frame.id, ctx.actor.codec, logger);
+	} else if (policy === "disconnect") {
+		try {
+			ctx.ws.close(config.closeCode ?? DEFAULT_RATE_LIMIT_CLOSE_CODE, config.closeReason ?? "Rate limit exceeded");
+		} catch (error) {
+			logger.error("[Verani] Failed to close rate limited connection:", error);
+		}
+	}
+
+	return false;
+}
+
+/**
+ * Forgets the buckets of a closed connection once they have refilled.
+ * Buckets that are still draining are kept, so a client cannot reset its limits by reconnecting,
+ * and are checked again by an alarm when they should have refilled.
+ * @param actor - The actor instance
+ * @param config - Room rate limit configuration
+ * @param meta - Metadata of the closed connection
+ */
+export function clearRateLimitBuckets<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	config: RateLimitConfig,
+	meta: TMeta
+): void {
+	const keys = [connectionKey(meta.clientId)];
+	// The user's bucket is left to the close of their last connection
+	if (getUserSessions(actor.sessions, meta.userId).length === 0) {
+		keys.push(userKey(meta.userId));
+	}
+	for (const event of Object.keys(config.perEvent ?? {})) {
+		keys.push(eventKey(meta.clientId, event));
+	}
+
+	pruneRateLimitBuckets(actor, keys).catch((error) => {
+		actor.logger.error("[Verani] Failed to delete rate limit buckets:", error, { userId: meta.userId, clientId: meta.clientId });
+	});
+}
+
+/**
+ * Deletes the given buckets from the cache and storage if they have refilled.
+ * Schedules another check for the ones still draining; a bucket in use by another
+ * connection is simply checked again until it refills.
+ * @param actor - The actor instance
+ * @param keys - Storage keys of the buckets
+ */
+export async function pruneRateLimitBuckets<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	keys: string[]
+): Promise<void> {
+	const cache = getCache(actor);
+	const storage = actor.getStorage();
+	const stored = await storage.get<BucketState>(keys);
+	const now = Date.now();
+
+	const expired: string[] = [];
+	const draining: string[] = [];
+	let refilledAt = 0;
+	for (const key of keys) {
+		// The cache may be ahead of storage, since bucket writes are not awaited
+		const cached = cache.get(key);
+		const bucket = cached ? await cached : stored.get(key);
+		if (!bucket) {
+			continue;
+		}
+		if (isRefilled(bucket, now)) {
+			if (cache.get(key) === cached) {
+				cache.delete(key);
+			}
+			expired.push(key);
+		} else {
+			draining.push(key);
+			refilledAt = Math.max(refilledAt, bucket.refilledAt ?? bucket.updatedAt);
+		}
+	}
+
+	if (expired.length > 0) {
+		await deleteKeys(storage, expired);
+		actor.logger.debug("[Verani:RateLimit] Dropped refilled buckets:", expired.length);
+	}
+	if (draining.length > 0) {
+		await scheduleAlarm(actor, refilledAt, { kind: "ratelimit", keys: draining });
+	}
+}
@@ -0,0 +1,289 @@
+import type { RoomDefinition, ConnectionMeta, VeraniActor, ResumeConfig } from "../types";
+import { RESUME_TOKEN_PARAM } from "../../shared/handshake";
+import { scheduleAlarm, cancelAlarm } from "./alarms";
+import { runDisconnectHook } from "./onWebSocketDisconnect";
+import { keepClosedSocket, releaseClosedSocket, takeClosedSocket } from "./closedSockets";
+import { getConnectionId } from "../attachment";
+
+/**
+ * Default time a dropped session can be resumed
+ */
+const DEFAULT_GRACE_MS = 30_000;
+
+/**
+ * Default lifetime of a resume token (24 hours)
+ */
+const DEFAULT_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Storage key prefix of suspended sessions, keyed by clientId
+ */
+const SUSPENDED_PREFIX = "verani:resume:";
+
+/**
+ * A dropped session waiting to be resumed
+ */
+interface SuspendedSession<TMeta> {
+	meta: TMeta;
+	expiresAt: number;
+	alarmId?: string;
+	/** Connection the session was suspended from; only its latest token can resume it */
+	connectionId?: string;
+}
+
+/**
+ * Identity carried by a resume token
+ */
+interface ResumeTokenPayload {
+	/** User ID */
+	u: string;
+	/** Client ID */
+	c: string;
+	/** Connection the token was issued to, so each connection gets a new token and old ones stop working */
+	k: string;
+	/** Issued at (ms since epoch) */
+	i: number;
+	/** Expires at (ms since epoch) */
+	e: number;
+}
+
+/**
+ * Identity of a valid resume token
+ */
+export interface ResumeTokenIdentity {
+	userId: string;
+	clientId: string;
+	connectionId: string;
+}
+
+/**
+ * Imported HMAC keys, cached per secret
+ */
+const signingKeys = new Map<string, Promise<CryptoKey>>();
+
+const textEncoder = new TextEncoder();
+
+function getSigningKey(config: ResumeConfig): Promise<CryptoKey> {
+	const secret = typeof config.secret === "function" ? config.secret() : config.secret;
+	if (!secret) {
+		throw new Error("resume.secret must be a non-empty string");
+	}
+
+	let key = signingKeys.get(secret);
+	if (!key) {
+		key = crypto.subtle.importKey(
+			"raw",
+			textEncoder.encode(secret),
+			{ name: "HMAC", hash: "SHA-256" },
+			false,
+			["sign", "verify"]
+		);
+		signingKeys.set(secret, key);
+	}
+	return key;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array {
+	const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+	const binary = atob(base64 + "=".repeat((4 - base64.length % 4) % 4));
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Creates a signed, expiring token identifying a session and the connection it was issued to
+ * @param connectionId - Connection the token is sent on (see `getConnectionId`)
+ * @returns Token of the form `<payload>.<signature>`, both base64url-encoded
+ */
+export async function createResumeToken(config: ResumeConfig, meta: ConnectionMeta, connectionId: string): Promise<string> {
+	const now = Date.now();
+	const payload: ResumeTokenPayload = {
+		u: meta.userId,
+		c: meta.clientId,
+		k: connectionId,
+		i: now,
+		e: now + (config.tokenTtlMs ?? DEFAULT_TOKEN_TTL_MS)
+	};
+	const encoded = toBase64Url(textEncoder.encode(JSON.stringify(payload)));
+	const signature = await crypto.subtle.sign("HMAC", await getSigningKey(config), textEncoder.encode(encoded));
+	return `${encoded}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a resume token's signature and expiry
+ * @returns The identity in the token, or null if it is malformed, forged or expired
+ */
+export async function verifyResumeToken(
+	config: ResumeConfig,
+	token: string
+): Promise<ResumeTokenIdentity | null> {
+	const [encoded, signature, extra] = token.split(".");
+	if (!encoded || !signature || extra !== undefined) {
+		return null;
+	}
+
+	try {
+		const valid = await crypto.subtle.verify(
+			"HMAC",
+			await getSigningKey(config),
+			fromBase64Url(signature),
+			textEncoder.encode(encoded)
+		);
+		if (!valid) {
+			return null;
+		}
+
+		const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded))) as ResumeTokenPayload;
+		if (
+			typeof payload.u !== "string" ||
+			typeof payload.c !== "string" ||
+			typeof payload.k !== "string" ||
+			typeof payload.e !== "number"
+		) {
+			return null;
+		}
+		if (payload.e <= Date.now()) {
+			return null;
+		}
+		return { userId: payload.u, clientId: payload.c, connectionId: payload.k };
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Keeps a dropped session resumable for the grace window instead of running onDisconnect.
+ * The session is persisted so the window survives hibernation; an alarm ends it.
+ */
+export async function suspendSession<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	config: ResumeConfig,
+	ws: WebSocket,
+	meta: TMeta
+): Promise<void> {
+	const expiresAt = Date.now() + (config.graceMs ?? DEFAULT_GRACE_MS);
+	const alarmId = await scheduleAlarm(actor, expiresAt, { kind: "resume", clientId: meta.clientId });
+	const suspended: SuspendedSession<TMeta> = { meta, expiresAt, alarmId, connectionId: getConnectionId(ws) };
+	await actor.getStorage().put(SUSPENDED_PREFIX + meta.clientId, suspended);
+	keepClosedSocket(actor, meta.clientId, ws);
+
+	actor.logger.debug("[Verani:Resume] Session suspended, clientId:", meta.clientId, "expiresAt:", expiresAt);
+}
+
+/**
+ * Resumes a suspended session if the upgrade request carries a valid resume token
+ * @returns The previous session's meta, or null if the client must start a new session
+ */
+export async function resumeSession<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	config: ResumeConfig,
+	req: Request
+): Promise<TMeta | null> {
+	const token = new URL(req.url).searchParams.get(RESUME_TOKEN_PARAM);
+	if (!token) {
+		return null;
+	}
+
+	const identity = await verifyResumeToken(config, token);
+	if (!identity) {
+		actor.logger.debug("[Verani:Resume] Ignoring invalid resume token");
+		return null;
+	}
+
+	const key = SUSPENDED_PREFIX + identity.clientId;
+	const suspended = await actor.getStorage().get<SuspendedSession<TMeta>>(key);
+	if (
+		!suspended ||
+		suspended.meta.userId !== identity.userId ||
+		suspended.connectionId !== identity.connectionId ||
+		suspended.expiresAt <= Date.now()
+	) {
+		actor.logger.debug("[Verani:Resume] No resumable session, clientId:", identity.clientId);
+		return null;
+	}
+
+	await actor.getStorage().delete(key);
+	releaseClosedSocket(actor, identity.clientId);
+	if (suspended.alarmId) {
+		await cancelAlarm(actor, suspended.alarmId);
+	}
+
+	// The new connection gets a new token in its session frame; this one cannot be used again
+	actor.logger.debug("[Verani:Resume] Session resumed, clientId:", identity.clientId);
+	return suspended.meta;
+}
+
+/**
+ * Lists the clientIds of sessions waiting to be resumed
+ */
+export async function listSuspendedClientIds<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>
+): Promise<string[]> {
+	const entries = await actor.getStorage().list<SuspendedSession<TMeta>>({ prefix: SUSPENDED_PREFIX });
+	return Array.from(entries.values(), (suspended) => suspended.meta.clientId);
+}
+
+/**
+ * Ends the grace window of a suspended session and ends the session for good.
+ * onDisconnect runs right away: the resume window already debounced the drop,
+ * so the onDisconnect grace period is not added on top of it.
+ */
+export async function expireSuspendedSession<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	clientId: string
+): Promise<void> {
+	const key = SUSPENDED_PREFIX + clientId;
+	const suspended = await actor.getStorage().get<SuspendedSession<TMeta>>(key);
+	if (!suspended) {
+		// Already resumed
+		return;
+	}
+
+	await actor.getStorage().delete(key);
+	const ws = takeClosedSocket(actor, clientId, suspended.meta);
+
+	actor.logger.debug("[Verani:Resume] Grace window ended, clientId:", clientId);
+	try {
+		await runDisconnectHook(actor, room, ws, suspended.meta);
+	} catch (error) {
+		actor.logger.error("[Verani] Error in deferred onDisconnect:", error);
+	}
+}
+
+/**
+ * Ends the suspended sessions of a user right away, so none of them can be resumed
+ * @param clientId - Only end this client's session
+ * @returns Number of sessions ended
+ */
+export async function expireUserSuspendedSessions<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	userId: string,
+	clientId?: string
+): Promise<number> {
+	const entries = await actor.getStorage().list<SuspendedSession<TMeta>>({ prefix: SUSPENDED_PREFIX });
+	let expired = 0;
+	for (const suspended of entries.values()) {
+		if (suspended.meta.userId !== userId || (clientId !== undefined && suspended.meta.clientId !== clientId)) {
+			continue;
+		}
+		if (suspended.alarmId) {
+			await cancelAlarm(actor, suspended.alarmId);
+		}
+		await expireSuspendedSession(actor, room, suspended.meta.clientId);
+		expired++;
+	}
+	return expired;
+}
@@ -0,0 +1,107 @@
+import type { ConnectionMeta, VeraniActor, ScheduledEmit, ScheduleTarget } from "../types";
+import { scheduleAlarm, cancelAlarm } from "./alarms";
+
+/**
+ * Storage key prefix of scheduled emits, keyed by job id
+ */
+const JOB_PREFIX = "verani:schedule:";
+
+/**
+ * Target used when schedule() is called without one
+ */
+const DEFAULT_TARGET: ScheduleTarget = { channel: "default" };
+
+/**
+ * A scheduled emit as stored, with the alarm that runs it
+ */
+interface StoredJob extends ScheduledEmit {
+	alarmId: string;
+}
+
+function toScheduledEmit({ alarmId, ...job }: StoredJob): ScheduledEmit {
+	return job;
+}
+
+/**
+ * Persists an event to emit later and schedules the alarm that emits it
+ * @param when - Date to emit at, or delay in milliseconds
+ */
+export async function scheduleEmit<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	when: Date | number,
+	event: string,
+	data?: any,
+	target: ScheduleTarget = DEFAULT_TARGET
+): Promise<ScheduledEmit> {
+	const now = Date.now();
+	const at = when instanceof Date ? when.getTime() : now + when;
+	if (!Number.isFinite(at)) {
+		throw new Error("schedule() expects a valid Date or a delay in milliseconds");
+	}
+
+	const id = crypto.randomUUID();
+	const alarmId = await scheduleAlarm(actor, at, { kind: "emit", jobId: id });
+	const job: StoredJob = { id, at, event, data, target, createdAt: now, alarmId };
+	await actor.getStorage().put(JOB_PREFIX + id, job);
+
+	actor.logger.debug("[Verani:Schedule] Scheduled", event, "job:", id, "at:", at);
+	return toScheduledEmit(job);
+}
+
+/**
+ * Lists pending scheduled emits, soonest first
+ */
+export async function listScheduledEmits<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>
+): Promise<ScheduledEmit[]> {
+	const jobs = await actor.getStorage().list<StoredJob>({ prefix: JOB_PREFIX });
+	return Array.from(jobs.values(), toScheduledEmit).sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Cancels a scheduled emit
+ * @returns true if the job was pending
+ */
+export async function cancelScheduledEmit<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	id: string
+): Promise<boolean> {
+	const key = JOB_PREFIX + id;
+	const job = await actor.getStorage().get<StoredJob>(key);
+	if (!job) {
+		return false;
+	}
+
+	await actor.getStorage().delete(key);
+	await cancelAlarm(actor, job.alarmId);
+
+	actor.logger.debug("[Verani:Schedule] Cancelled job:", id);
+	return true;
+}
+
+/**
+ * Emits a scheduled event whose time has come, through the regular emit path
+ */
+export async function runScheduledEmit<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	id: string
+): Promise<void> {
+	const key = JOB_PREFIX + id;
+	const job = await actor.getStorage().get<StoredJob>(key);
+	if (!job) {
+		// Cancelled
+		return;
+	}
+
+	await actor.getStorage().delete(key);
+
+	try {
+		const { target } = job;
+		const sent = "userId" in target
+			? actor.emitToUser(target.userId, job.event, job.data, { persistIfOffline: target.persistIfOffline })
+			: actor.emit.to(target.channel).emit(job.event, job.data);
+		actor.logger.debug("[Verani:Schedule] Emitted", job.event, "job:", id, "sent:", sent);
+	} catch (error) {
+		actor.logger.error("[Verani] Error in scheduled emit:", error);
+	}
+}
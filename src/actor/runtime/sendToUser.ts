@@ -1,5 +1,7 @@
 import { encodeFrame } from "../protocol";
-import type { MessageFrame, ConnectionMeta } from "../types";
+import type { MessageFrame, ConnectionMeta, Codec } from "../types";
+import type { TelemetryRecorder } from "./telemetry";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Sends a message to a specific user (all their sessions)
@@ -7,18 +9,25 @@ import type { MessageFrame, ConnectionMeta } from "../types";
  * @param userId - The user ID to send to
  * @param channel - The channel to send to
  * @param data - Message data
+ * @param codec - Wire format of the actor (default: JSON)
+ * @param logger - Logger of the actor
+ * @param telemetry - Telemetry recorder of the actor, if the room defines telemetry hooks
  * @returns Number of sessions that received the message
  */
 export function sendToUser<TMeta extends ConnectionMeta>(
 	sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>,
 	userId: string,
 	channel: string,
-	data?: any
+	data?: any,
+	codec?: Codec,
+	logger: Logger = silentLogger,
+	telemetry?: TelemetryRecorder
 ): number {
-	console.debug("[Verani:ActorRuntime] Sending to user:", userId, "on channel:", channel);
+	const startTime = Date.now();
+	logger.debug("[Verani:ActorRuntime] Sending to user on channel:", channel, { userId });
 	let sentCount = 0;
 	const frame: MessageFrame = { type: "event", channel, data };
-	const encoded = encodeFrame(frame);
+	const encoded = encodeFrame(frame, codec);
 	const failedSessions: WebSocket[] = [];
 
 	// Send only to sessions of that user which are subscribed to the channel
@@ -26,7 +35,7 @@ export function sendToUser<TMeta extends ConnectionMeta>(
 		if (meta.userId === userId && meta.channels.includes(channel)) {
 			// Check WebSocket state before sending
 			if (ws.readyState !== WebSocket.OPEN) {
-				console.debug("[Verani:ActorRuntime] Skipping closed/closing WebSocket for user:", userId);
+				logger.debug("[Verani:ActorRuntime] Skipping closed/closing WebSocket", { userId, clientId: meta.clientId });
 				failedSessions.push(ws);
 				continue;
 			}
@@ -35,7 +44,7 @@ export function sendToUser<TMeta extends ConnectionMeta>(
 				ws.send(encoded);
 				sentCount++;
 			} catch (error) {
-				console.error("[Verani] Failed to send to user:", error);
+				logger.error("[Verani] Failed to send to user:", error, { userId, clientId: meta.clientId });
 				failedSessions.push(ws);
 			}
 		}
@@ -46,10 +55,11 @@ export function sendToUser<TMeta extends ConnectionMeta>(
 		sessions.delete(ws);
 	}
 	if (failedSessions.length > 0) {
-		console.debug("[Verani:ActorRuntime] Removed", failedSessions.length, "failed sessions during sendToUser");
+		logger.debug("[Verani:ActorRuntime] Removed", failedSessions.length, "failed sessions during sendToUser");
 	}
 
-	console.debug("[Verani:ActorRuntime] SendToUser complete, sent to:", sentCount, "sessions");
+	logger.debug("[Verani:ActorRuntime] SendToUser complete, sent to:", sentCount, "sessions");
+	telemetry?.broadcast({ startTime, channel, userId, recipients: sentCount, failures: failedSessions.length });
 	return sentCount;
 }
 
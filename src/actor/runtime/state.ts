@@ -0,0 +1,284 @@
+import { encodeFrame } from "../protocol";
+import type { RoomDefinition, RoomState, MessageContext, MessageFrame, ConnectionMeta, VeraniActor } from "../types";
+import type { StateFrameData } from "../../shared/types";
+import { STATE_FRAME_TYPE, STATE_SUBSCRIBE_FRAME_TYPE, STATE_UNSUBSCRIBE_FRAME_TYPE } from "../../shared/handshake";
+import { diffJson, type JsonPatchOperation } from "../../shared/jsonPatch";
+import { sendError } from "./error";
+import { createActorSlot, getSessionLogger } from "./helpers";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Error code sent when a client subscribes to state the room does not have
+ */
+export const STATE_NOT_FOUND = "STATE_NOT_FOUND";
+
+/**
+ * Storage key of the current state and its version
+ */
+const STATE_KEY = "verani:state";
+
+/**
+ * Storage key of the clientIds subscribed to state changes
+ */
+const SUBSCRIBERS_KEY = "verani:state:subscribers";
+
+/**
+ * The state as stored
+ */
+interface StoredState {
+	version: number;
+	value: unknown;
+}
+
+/**
+ * Room-level shared state backed by Durable Object storage.
+ * State and subscribers are loaded once in onInit so that updates stay synchronous;
+ * writes are not awaited.
+ */
+export class SharedState {
+	private value: unknown;
+	private version = 0;
+	private subscribers = new Set<string>();
+
+	constructor(
+		private storage: DurableObjectStorage,
+		initial: unknown,
+		private logger: Logger = silentLogger
+	) {
+		this.value = structuredClone(initial);
+	}
+
+	/**
+	 * Loads the state and subscribers from storage.
+	 * Must be awaited before the state is read or updated after the actor wakes up.
+	 */
+	async load(): Promise<void> {
+		const stored = await this.storage.get<unknown>([STATE_KEY, SUBSCRIBERS_KEY]);
+		const state = stored.get(STATE_KEY) as StoredState | undefined;
+		if (state) {
+			this.value = state.value;
+			this.version = state.version;
+		}
+		this.subscribers = new Set((stored.get(SUBSCRIBERS_KEY) as string[] | undefined) ?? []);
+		this.logger.debug("[Verani:State] Loaded state version", this.version, "with", this.subscribers.size, "subscribers");
+	}
+
+	getVersion(): number {
+		return this.version;
+	}
+
+	get(): unknown {
+		return this.value;
+	}
+
+	/**
+	 * Runs an update function against a copy of the state and persists the result
+	 * @returns The patch from the previous version, or null if nothing changed
+	 */
+	update(fn: (draft: any) => unknown): JsonPatchOperation[] | null {
+		const draft = structuredClone(this.value);
+		const returned = fn(draft);
+		// A returned object stays referenced by the caller, so it is stored as a copy
+		const next = returned === undefined || returned === draft ? draft : structuredClone(returned);
+
+		const patch = diffJson(this.value, next);
+		if (patch.length === 0) {
+			return null;
+		}
+
+		this.value = next;
+		this.version++;
+
+		const stored: StoredState = { version: this.version, value: next };
+		this.storage.put(STATE_KEY, stored).catch((error) => {
+			this.logger.error("[Verani] Failed to store state:", error);
+		});
+
+		return patch;
+	}
+
+	isSubscribed(clientId: string): boolean {
+		return this.subscribers.has(clientId);
+	}
+
+	subscribe(clientId: string): void {
+		if (!this.subscribers.has(clientId)) {
+			this.subscribers.add(clientId);
+			this.saveSubscribers();
+		}
+	}
+
+	unsubscribe(clientId: string): void {
+		if (this.subscribers.delete(clientId)) {
+			this.saveSubscribers();
+		}
+	}
+
+	/**
+	 * Drops subscribers whose clientId is not in `keep`
+	 */
+	prune(keep: Set<string>): void {
+		const before = this.subscribers.size;
+		for (const clientId of Array.from(this.subscribers)) {
+			if (!keep.has(clientId)) {
+				this.subscribers.delete(clientId);
+			}
+		}
+		if (this.subscribers.size !== before) {
+			this.saveSubscribers();
+		}
+	}
+
+	private saveSubscribers(): void {
+		this.storage.put(SUBSCRIBERS_KEY, Array.from(this.subscribers)).catch((error) => {
+			this.logger.error("[Verani] Failed to store state subscribers:", error);
+		});
+	}
+}
+
+/**
+ * Shared state of each actor instance
+ */
+const states = createActorSlot<SharedState>();
+
+/**
+ * Gets the shared state of an actor, if the room defines one
+ */
+export function getSharedState(actor: object): SharedState | undefined {
+	return states.get(actor);
+}
+
+/**
+ * Name clients use to subscribe to a room's state: its `name`, or its `websocketPath` if unnamed
+ */
+export function getStateRoomName<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>): string {
+	return room.name ?? room.websocketPath;
+}
+
+/**
+ * Creates (or replaces) the shared state of an actor and loads it.
+ * Subscribers without a live session are dropped; clients subscribe again when they reconnect.
+ * Must run after sessions are restored.
+ */
+export async function initSharedState<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	initial: unknown
+): Promise<void> {
+	const state = new SharedState(actor.getStorage(), initial, actor.logger);
+	await state.load();
+
+	const keep = new Set<string>();
+	for (const { meta } of actor.sessions.values()) {
+		keep.add(meta.clientId);
+	}
+	state.prune(keep);
+
+	states.set(actor, state);
+}
+
+/**
+ * Checks whether a frame is a reserved state subscription frame
+ */
+export function isStateFrame(frame: MessageFrame): boolean {
+	return frame.type === STATE_SUBSCRIBE_FRAME_TYPE || frame.type === STATE_UNSUBSCRIBE_FRAME_TYPE;
+}
+
+function sendState(ws: WebSocket, encoded: string | Uint8Array, logger: Logger): void {
+	if (ws.readyState !== WebSocket.OPEN) {
+		return;
+	}
+	try {
+		ws.send(encoded);
+	} catch (error) {
+		logger.error("[Verani] Failed to send state:", error);
+	}
+}
+
+function encodeState<TMeta extends ConnectionMeta, E>(actor: VeraniActor<TMeta, E>, data: StateFrameData): string | Uint8Array {
+	return encodeFrame({ type: STATE_FRAME_TYPE, data }, actor.codec);
+}
+
+/**
+ * Handles a reserved `state.subscribe` or `state.unsubscribe` frame.
+ * Subscribing replies with a full snapshot; patches follow on every update.
+ * Frame shape: `{ type: "state.subscribe", data: { room } }`
+ */
+export function handleStateFrame<TMeta extends ConnectionMeta, E>(
+	room: RoomDefinition<TMeta, E>,
+	ctx: MessageContext<TMeta, E>,
+	frame: MessageFrame
+): void {
+	const state = getSharedState(ctx.actor);
+	const name = getStateRoomName(room);
+	const logger = getSessionLogger(ctx.actor, ctx.ws, ctx.meta);
+
+	if (!state || frame.data?.room !== name) {
+		logger.debug("[Verani:State] Unknown state requested:", frame.data?.room);
+		sendError(ctx.ws, {
+			code: STATE_NOT_FOUND,
+			message: `Room has no shared state named "${frame.data?.room}"`,
+			event: frame.type
+		}, frame.id, ctx.actor.codec, logger);
+		return;
+	}
+
+	if (frame.type === STATE_UNSUBSCRIBE_FRAME_TYPE) {
+		state.unsubscribe(ctx.meta.clientId);
+		logger.debug("[Verani:State] Unsubscribed");
+		return;
+	}
+
+	state.subscribe(ctx.meta.clientId);
+	sendState(ctx.ws, encodeState(ctx.actor, { room: name, version: state.getVersion(), snapshot: state.get() }), logger);
+	logger.debug("[Verani:State] Subscribed, version:", state.getVersion());
+}
+
+/**
+ * Stops sending state to a connection that closed
+ */
+export function dropStateSubscriber(actor: object, clientId: string): void {
+	getSharedState(actor)?.unsubscribe(clientId);
+}
+
+/**
+ * Creates the `actor.state` API
+ */
+export function createActorState<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>
+): RoomState {
+	const requireState = (): SharedState => {
+		const state = getSharedState(actor);
+		if (!state) {
+			throw new Error("Room has no shared state; pass `state` to defineRoom()");
+		}
+		return state;
+	};
+
+	return {
+		get version(): number {
+			return getSharedState(actor)?.getVersion() ?? 0;
+		},
+
+		// Callers get copies, so mutating them cannot change the state behind update()'s back
+		get<T = any>(): T {
+			return structuredClone(getSharedState(actor)?.get()) as T;
+		},
+
+		update<T = any>(fn: (draft: T) => T | void): T {
+			const state = requireState();
+			const patch = state.update(fn as (draft: any) => unknown);
+			if (patch) {
+				const version = state.getVersion();
+				actor.logger.debug("[Verani:State] Updated to version", version);
+				const encoded = encodeState(actor, { room: getStateRoomName(room), version, patch });
+				for (const { ws, meta } of actor.sessions.values()) {
+					if (state.isSubscribed(meta.clientId)) {
+						sendState(ws, encoded, actor.logger);
+					}
+				}
+			}
+			return structuredClone(state.get()) as T;
+		}
+	};
+}
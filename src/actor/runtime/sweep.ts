@@ -0,0 +1,184 @@
+import type { RoomDefinition, ConnectionMeta, VeraniActor } from "../types";
+import { CloseCodes } from "../../shared/closeCodes";
+import type { KeepaliveSettings } from "../../shared/types";
+import { recordActivity, getLastActivity } from "../attachment";
+import { scheduleAlarm } from "./alarms";
+import { getDurableObjectState } from "./helpers";
+import { onWebSocketDisconnect } from "./onWebSocketDisconnect";
+
+/**
+ * Default time between sweeps
+ */
+const DEFAULT_INTERVAL_MS = 60_000;
+
+/**
+ * Default time without any frame after which a connection is stale
+ */
+const DEFAULT_STALE_AFTER_MS = 30_000;
+
+/**
+ * Alarms have second precision
+ */
+const MIN_INTERVAL_MS = 1000;
+
+/**
+ * Storage key of the time the next sweep is scheduled at
+ */
+const NEXT_SWEEP_KEY = "verani:sweep:next";
+
+/**
+ * Sweep settings of a room, from its `sweep` and `heartbeat` options
+ */
+interface SweepSettings {
+	intervalMs: number;
+	/** Silence after which a connection is stale, if `sweep` is set */
+	staleAfterMs?: number;
+	/** Silence after which a connection is idle, if `heartbeat` is set */
+	idleTimeoutMs?: number;
+}
+
+/**
+ * Checks whether a room runs the session sweep
+ */
+export function isSweepEnabled<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>): boolean {
+	return room.sweep !== undefined || room.heartbeat !== undefined;
+}
+
+function getSweepSettings<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>): SweepSettings {
+	const idleTimeoutMs = room.heartbeat ? Math.max(MIN_INTERVAL_MS, room.heartbeat.idleTimeoutMs) : undefined;
+	// Idle connections are closed at most half a timeout late
+	const defaultIntervalMs = idleTimeoutMs !== undefined ? Math.min(DEFAULT_INTERVAL_MS, idleTimeoutMs / 2) : DEFAULT_INTERVAL_MS;
+
+	return {
+		intervalMs: Math.max(MIN_INTERVAL_MS, room.sweep?.intervalMs ?? defaultIntervalMs),
+		staleAfterMs: room.sweep ? Math.max(MIN_INTERVAL_MS, room.sweep.staleAfterMs ?? DEFAULT_STALE_AFTER_MS) : undefined,
+		idleTimeoutMs
+	};
+}
+
+/**
+ * Keepalive settings announced to clients in the `welcome` frame
+ * @returns The settings, or undefined if the room has neither a heartbeat nor automatic responses
+ */
+export function getKeepaliveSettings<TMeta extends ConnectionMeta, E>(room: RoomDefinition<TMeta, E>): KeepaliveSettings | undefined {
+	if (!room.heartbeat && !room.autoResponse) {
+		return undefined;
+	}
+
+	const settings: KeepaliveSettings = {};
+	const { idleTimeoutMs } = getSweepSettings(room);
+	if (room.heartbeat && idleTimeoutMs !== undefined) {
+		settings.pingInterval = room.heartbeat.pingIntervalMs ?? Math.floor(idleTimeoutMs / 3);
+		settings.idleTimeout = idleTimeoutMs;
+	}
+	if (room.autoResponse) {
+		settings.autoResponse = true;
+	}
+	return settings;
+}
+
+/**
+ * Gets the last time a connection was heard from: its last frame, or its last ping
+ * answered by the runtime when the room enables `autoResponse`
+ */
+function getLastSeen<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	ws: WebSocket
+): number | undefined {
+	const lastActivity = getLastActivity(ws);
+	if (!room.autoResponse) {
+		return lastActivity;
+	}
+
+	const autoResponseAt = getDurableObjectState(actor).getWebSocketAutoResponseTimestamp(ws)?.getTime();
+	if (autoResponseAt === undefined) {
+		return lastActivity;
+	}
+	return lastActivity === undefined ? autoResponseAt : Math.max(lastActivity, autoResponseAt);
+}
+
+/**
+ * Schedules the next sweep, unless one is already pending or there is nothing to sweep
+ */
+export async function ensureSweep<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>
+): Promise<void> {
+	if (!isSweepEnabled(room) || actor.sessions.size === 0) {
+		return;
+	}
+
+	const storage = actor.getStorage();
+	const next = await storage.get<number>(NEXT_SWEEP_KEY);
+	if (next !== undefined && next >= Date.now()) {
+		return;
+	}
+
+	const at = Date.now() + getSweepSettings(room).intervalMs;
+	await scheduleAlarm(actor, at, { kind: "sweep" });
+	await storage.put(NEXT_SWEEP_KEY, at);
+}
+
+/**
+ * Records that a connection is alive. Called for every frame it sends, pings included.
+ */
+export function markAlive<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>,
+	ws: WebSocket
+): void {
+	const session = isSweepEnabled(room) ? actor.sessions.get(ws) : undefined;
+	if (session) {
+		recordActivity(ws, session.meta);
+	}
+}
+
+/**
+ * Closes connections that are no longer open, went silent for longer than `sweep.staleAfterMs`
+ * or exceeded `heartbeat.idleTimeoutMs`, and ends their sessions as if they had disconnected.
+ * Then schedules the next sweep.
+ * @returns Number of sessions swept
+ */
+export async function runSweep<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>
+): Promise<number> {
+	await actor.getStorage().delete(NEXT_SWEEP_KEY);
+	if (!isSweepEnabled(room)) {
+		return 0;
+	}
+
+	const { staleAfterMs, idleTimeoutMs } = getSweepSettings(room);
+	const now = Date.now();
+	const swept: Array<{ ws: WebSocket; code: number; reason: string }> = [];
+	for (const { ws } of actor.sessions.values()) {
+		const silentMs = now - (getLastSeen(actor, room, ws) ?? now);
+		if (ws.readyState !== WebSocket.OPEN) {
+			swept.push({ ws, code: CloseCodes.STALE_CONNECTION, reason: "Stale connection" });
+		} else if (idleTimeoutMs !== undefined && silentMs > idleTimeoutMs) {
+			swept.push({ ws, code: CloseCodes.IDLE_TIMEOUT, reason: "Idle timeout" });
+		} else if (staleAfterMs !== undefined && silentMs > staleAfterMs) {
+			swept.push({ ws, code: CloseCodes.STALE_CONNECTION, reason: "Stale connection" });
+		}
+	}
+
+	for (const { ws, code, reason } of swept) {
+		if (ws.readyState === WebSocket.OPEN) {
+			try {
+				ws.close(code, reason);
+			} catch (error) {
+				actor.logger.error("[Verani] Failed to close stale connection:", error);
+			}
+		}
+		// Runs onDisconnect (or suspends the session if resumable) like a dropped connection
+		await onWebSocketDisconnect(actor, room, ws, code);
+	}
+
+	if (swept.length > 0) {
+		actor.logger.debug("[Verani:Sweep] Swept", swept.length, "sessions, remaining:", actor.sessions.size);
+	}
+
+	await ensureSweep(actor, room);
+	return swept.length;
+}
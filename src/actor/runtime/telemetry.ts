@@ -0,0 +1,88 @@
+import type {
+	RoomDefinition,
+	ConnectionMeta,
+	VeraniActor,
+	RoomTelemetry,
+	ConnectTelemetry,
+	DisconnectTelemetry,
+	EventTelemetry,
+	BroadcastTelemetry,
+	RestoreTelemetry
+} from "../types";
+import type { Logger } from "../../shared/logger";
+import { getStateRoomName } from "./state";
+import { createActorSlot } from "./helpers";
+
+/**
+ * A telemetry record without the fields the recorder fills in
+ */
+type Measured<T> = Omit<T, "roomName" | "durationMs">;
+
+/**
+ * Calls a room's telemetry hooks, adding the room name and duration to each record.
+ * Errors thrown by hooks never reach the runtime.
+ */
+export class TelemetryRecorder {
+	constructor(
+		private hooks: RoomTelemetry,
+		private roomName: string,
+		private logger: Logger
+	) {}
+
+	connect(record: Measured<ConnectTelemetry>): void {
+		this.call("connect", record);
+	}
+
+	disconnect(record: Measured<DisconnectTelemetry>): void {
+		this.call("disconnect", record);
+	}
+
+	event(record: Measured<EventTelemetry>): void {
+		this.call("event", record);
+	}
+
+	broadcast(record: Measured<BroadcastTelemetry>): void {
+		this.call("broadcast", record);
+	}
+
+	restore(record: Measured<RestoreTelemetry>): void {
+		this.call("restore", record);
+	}
+
+	private call<K extends keyof RoomTelemetry>(hook: K, record: Measured<Parameters<NonNullable<RoomTelemetry[K]>>[0]>): void {
+		const fn = this.hooks[hook] as ((record: any) => void) | undefined;
+		if (!fn) {
+			return;
+		}
+		try {
+			fn.call(this.hooks, { ...record, roomName: this.roomName, durationMs: Date.now() - record.startTime });
+		} catch (error) {
+			this.logger.error("[Verani] Error in telemetry hook:", hook, error);
+		}
+	}
+}
+
+/**
+ * Telemetry recorder of each actor instance
+ */
+const recorders = createActorSlot<TelemetryRecorder>();
+
+/**
+ * Creates the telemetry recorder of an actor, if the room defines telemetry hooks.
+ * Must run first in onInit so that restores and broadcasts are recorded.
+ */
+export function initTelemetry<TMeta extends ConnectionMeta, E>(
+	actor: VeraniActor<TMeta, E>,
+	room: RoomDefinition<TMeta, E>
+): void {
+	if (room.telemetry) {
+		recorders.set(actor, new TelemetryRecorder(room.telemetry, getStateRoomName(room), actor.logger));
+	}
+}
+
+/**
+ * Gets the telemetry recorder of an actor, if the room defines telemetry hooks
+ */
+export function getTelemetry(actor: object): TelemetryRecorder | undefined {
+	return recorders.get(actor);
+}
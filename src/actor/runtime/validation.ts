@@ -0,0 +1,63 @@
+import type { StandardSchemaV1, StandardSchemaIssue } from "../types";
+import type { ErrorFrameData } from "../../shared/types";
+
+/**
+ * Error code sent when an event payload fails schema validation
+ */
+export const VALIDATION_FAILED = "VALIDATION_FAILED";
+
+/**
+ * Outcome of validating an event payload
+ */
+export type ValidationOutcome =
+	| { success: true; value: unknown }
+	| { success: false; issues: NonNullable<ErrorFrameData["issues"]> };
+
+/**
+ * Converts a Standard Schema issue path into a JSON-serializable path
+ */
+function normalizePath(path: StandardSchemaIssue["path"]): Array<string | number> | undefined {
+	if (!path || path.length === 0) {
+		return undefined;
+	}
+	return path.map((segment) => {
+		const key = typeof segment === "object" && segment !== null ? segment.key : segment;
+		return typeof key === "number" ? key : String(key);
+	});
+}
+
+/**
+ * Validates an event payload against a Standard Schema
+ * @param schema - Standard Schema compatible validator
+ * @param data - Raw event payload
+ * @returns The parsed value, or the list of issues if validation failed
+ */
+export async function validateEventData(schema: StandardSchemaV1, data: unknown): Promise<ValidationOutcome> {
+	const result = await schema["~standard"].validate(data);
+
+	if (result.issues) {
+		return {
+			success: false,
+			issues: result.issues.map((issue) => ({
+				message: issue.message,
+				path: normalizePath(issue.path)
+			}))
+		};
+	}
+
+	return { success: true, value: result.value };
+}
+
+/**
+ * Builds the payload of the `error` frame sent for an invalid event
+ * @param event - Event type of the rejected frame
+ * @param issues - Validation issues
+ */
+export function createValidationError(event: string, issues: NonNullable<ErrorFrameData["issues"]>): ErrorFrameData {
+	return {
+		code: VALIDATION_FAILED,
+		message: `Invalid payload for event "${event}"`,
+		event,
+		issues
+	};
+}
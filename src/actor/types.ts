@@ -1,7 +1,9 @@
 import type { Actor } from "@cloudflare/actors";
-import type { ConnectionMeta, MessageFrame } from "../shared/types";
+import type { ConnectionMeta, MessageFrame, EventMap, PresenceUser } from "../shared/types";
+import type { Codec } from "../shared/codec";
+import type { Logger } from "../shared/logger";
 
-export type { ConnectionMeta, MessageFrame };
+export type { ConnectionMeta, MessageFrame, EventMap, Codec, PresenceUser };
 
 /**
  * Options for broadcasting messages to connections
@@ -26,6 +28,62 @@ export interface RpcBroadcastOptions {
   clientIds?: string[];
 }
 
+/**
+ * Options for sending to a single user
+ */
+export interface SendToUserOptions {
+  /**
+   * Queue the frame in actor storage if the user has no open session,
+   * and deliver it when the user next connects (see `RoomDefinition.inbox`).
+   * Frames sent to a channel are only delivered to a connection subscribed to it.
+   */
+  persistIfOffline?: boolean;
+}
+
+/**
+ * Recipients of a scheduled emit: every connection in a channel, or every session of a user
+ */
+export type ScheduleTarget =
+  | { channel: string }
+  | { userId: string; persistIfOffline?: boolean };
+
+/**
+ * An event scheduled with `actor.schedule()`
+ */
+export interface ScheduledEmit {
+  /** Job id, used to cancel it */
+  id: string;
+  /** When the event is emitted (ms since epoch). Alarms have second precision. */
+  at: number;
+  event: string;
+  data?: any;
+  target: ScheduleTarget;
+  /** When the job was scheduled (ms since epoch) */
+  createdAt: number;
+}
+
+/**
+ * Options for banning a user with `actor.banUser()`
+ */
+export interface BanOptions {
+  /** Close reason sent to the user's connections and to later connection attempts */
+  reason?: string;
+  /** How long the ban lasts in milliseconds (default: until `unbanUser()`) */
+  durationMs?: number;
+}
+
+/**
+ * A user banned from a room, as persisted in actor storage
+ */
+export interface BanEntry {
+  userId: string;
+  reason?: string;
+  /** When the user was banned (ms since epoch) */
+  bannedAt: number;
+  /** When the ban ends (ms since epoch); absent for permanent bans */
+  expiresAt?: number;
+}
+
 /**
  * Actor stub interface returned by .get() method.
  * Provides RPC access to actor methods that can be called remotely.
@@ -58,13 +116,14 @@ export interface ActorStub {
 	 * @param userId - User ID to emit to
 	 * @param event - Event name
 	 * @param data - Event data
-	 * @returns Promise resolving to the number of sessions that received the message
+	 * @param opts - Send options (`persistIfOffline` queues the event if the user is offline)
+	 * @returns Promise resolving to the number of sessions that received the message (0 if it was queued)
 	 * @example
 	 * ```typescript
-	 * await stub.emitToUser("alice", "notification", { message: "Hello!" });
+	 * await stub.emitToUser("alice", "notification", { message: "Hello!" }, { persistIfOffline: true });
 	 * ```
 	 */
-	emitToUser(userId: string, event: string, data?: any): Promise<number>;
+	emitToUser(userId: string, event: string, data?: any, opts?: SendToUserOptions): Promise<number>;
 
 	/**
 	 * @deprecated Use `emitToUser()` instead for Socket.IO-like API.
@@ -72,9 +131,10 @@ export interface ActorStub {
 	 * @param userId - The user ID to send to
 	 * @param channel - The channel to send to
 	 * @param data - Message data
-	 * @returns Promise resolving to the number of sessions that received the message
+	 * @param opts - Send options (`persistIfOffline` queues the message if the user is offline)
+	 * @returns Promise resolving to the number of sessions that received the message (0 if it was queued)
 	 */
-	sendToUser(userId: string, channel: string, data?: any): Promise<number>;
+	sendToUser(userId: string, channel: string, data?: any, opts?: SendToUserOptions): Promise<number>;
 
 	/**
 	 * @deprecated Use `emitToChannel()` instead for Socket.IO-like API.
@@ -106,12 +166,73 @@ export interface ActorStub {
 	 * @returns Promise resolving to the number of sessions cleaned up
 	 */
 	cleanupStaleSessions(): Promise<number>;
+
+	/**
+	 * Closes all sessions of a user via RPC. See `VeraniActor.disconnectUser()`.
+	 * @returns Promise resolving to the number of connections closed
+	 * @example
+	 * ```typescript
+	 * await stub.disconnectUser("spammer", "Kicked by moderator");
+	 * ```
+	 */
+	disconnectUser(userId: string, reason?: string, code?: number): Promise<number>;
+
+	/**
+	 * Closes a single connection via RPC. See `VeraniActor.disconnectClient()`.
+	 * @returns Promise resolving to true if the client was connected
+	 */
+	disconnectClient(clientId: string, reason?: string, code?: number): Promise<boolean>;
+
+	/**
+	 * Bans a user via RPC. See `VeraniActor.banUser()`.
+	 * @returns Promise resolving to the number of connections closed
+	 * @example
+	 * ```typescript
+	 * await stub.banUser("spammer", { reason: "Spam", durationMs: 24 * 60 * 60_000 });
+	 * ```
+	 */
+	banUser(userId: string, opts?: BanOptions): Promise<number>;
+
+	/**
+	 * Lifts a ban via RPC.
+	 * @returns Promise resolving to true if the user was banned
+	 */
+	unbanUser(userId: string): Promise<boolean>;
+
+	/**
+	 * Lists active bans via RPC.
+	 */
+	listBans(): Promise<BanEntry[]>;
+
+	/**
+	 * Schedules an event via RPC. See `VeraniActor.schedule()`.
+	 * @example
+	 * ```typescript
+	 * await stub.schedule(10 * 60_000, "reminder", { text: "Stand-up" }, { userId: "alice" });
+	 * ```
+	 */
+	schedule(when: Date | number, event: string, data?: any, target?: ScheduleTarget): Promise<ScheduledEmit>;
+
+	/**
+	 * Lists pending scheduled events via RPC, soonest first.
+	 */
+	listScheduled(): Promise<ScheduledEmit[]>;
+
+	/**
+	 * Cancels a scheduled event via RPC.
+	 * @returns Promise resolving to true if the job was pending
+	 */
+	cancelScheduled(id: string): Promise<boolean>;
 }
 
 /**
  * Extended Actor interface with Verani-specific methods
  */
-export interface VeraniActor<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> extends Actor<E> {
+export interface VeraniActor<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TServerEvents extends EventMap = EventMap
+> extends Actor<E> {
   /**
    * Map of active WebSocket sessions keyed by their WebSocket instance.
    * Each entry contains the WebSocket and its associated metadata.
@@ -119,6 +240,19 @@ export interface VeraniActor<TMeta extends ConnectionMeta = ConnectionMeta, E =
    */
   sessions: Map<WebSocket, { ws: WebSocket; meta: TMeta }>;
 
+  /**
+   * Wire format used to encode and decode frames for this actor's connections.
+   * @see @src/actor/actor-runtime.ts createActorHandler() options
+   */
+  codec: Codec;
+
+  /**
+   * Logger of this actor, with the room name attached to every entry.
+   * Silent unless one is passed to createActorHandler().
+   * @see @src/actor/actor-runtime.ts createActorHandler() options
+   */
+  logger: Logger;
+
   /**
    * Broadcast a message to all connections in a channel.
    * Performs channel, userId, clientId, and exclusion filtering.
@@ -149,10 +283,67 @@ export interface VeraniActor<TMeta extends ConnectionMeta = ConnectionMeta, E =
    * Send a message to all sessions belonging to a user ID in a given channel.
    * Message will only be sent to sessions where the user's channels include the given channel.
    * Returns the number of sessions the message was sent to.
+   * With `persistIfOffline`, the message is queued in the user's inbox if they have no open session.
    * The message "type" is always "event" (see src/actor/actor-runtime.ts).
    * @see @src/actor/actor-runtime.ts sendToUser()
    */
-  sendToUser(userId: string, channel: string, data?: any): number;
+  sendToUser(userId: string, channel: string, data?: any, opts?: SendToUserOptions): number;
+
+  /**
+   * Emit an event to all sessions of a user, regardless of their channels.
+   * With `persistIfOffline`, the event is queued in the user's inbox if they have no open session.
+   * @see @src/actor/actor-runtime.ts emitToUser()
+   */
+  emitToUser(userId: string, event: string, data?: any, opts?: SendToUserOptions): number;
+
+  /**
+   * Schedule an event to be emitted later, even if the actor hibernates meanwhile.
+   * `when` is a Date, or a delay in milliseconds. The target defaults to the "default" channel.
+   * Jobs are persisted in storage and run from the Durable Object alarm.
+   * @see @src/actor/runtime/schedule.ts
+   */
+  schedule(when: Date | number, event: string, data?: any, target?: ScheduleTarget): Promise<ScheduledEmit>;
+
+  /**
+   * List pending scheduled events, soonest first.
+   */
+  listScheduled(): Promise<ScheduledEmit[]>;
+
+  /**
+   * Cancel a scheduled event. Returns true if the job was pending.
+   */
+  cancelScheduled(id: string): Promise<boolean>;
+
+  /**
+   * Close all sessions of a user with `code` (default: `CloseCodes.KICKED`) and end them
+   * right away: onDisconnect runs and the sessions cannot be resumed. Suspended sessions and
+   * sessions in their onDisconnect grace period are ended too.
+   * Returns the number of open connections closed. The user may connect again; see `banUser()`.
+   * @see @src/actor/runtime/moderation.ts
+   */
+  disconnectUser(userId: string, reason?: string, code?: number): Promise<number>;
+
+  /**
+   * Close a single connection like `disconnectUser()` does.
+   * Returns true if the client was connected.
+   */
+  disconnectClient(clientId: string, reason?: string, code?: number): Promise<boolean>;
+
+  /**
+   * Persist a ban, checked whenever the user connects, and close the user's sessions
+   * with `CloseCodes.BANNED`. Returns the number of connections closed.
+   */
+  banUser(userId: string, opts?: BanOptions): Promise<number>;
+
+  /**
+   * Lift a ban. Returns true if the user was banned.
+   */
+  unbanUser(userId: string): Promise<boolean>;
+
+  /**
+   * List active bans, oldest first.
+   */
+  listBans(): Promise<BanEntry[]>;
 
   /**
    * Validates and removes stale WebSocket sessions.
@@ -171,17 +362,149 @@ export interface VeraniActor<TMeta extends ConnectionMeta = ConnectionMeta, E =
   /**
    * Socket.io-like emit API for actor-level broadcasting
    */
-  emit: ActorEmit<TMeta, E>;
+  emit: ActorEmit<TMeta, E, TServerEvents>;
+
+  /**
+   * Who is present in each channel, when the room enables `presence`
+   * @see @src/actor/runtime/presence.ts
+   */
+  presence: ActorPresence;
+
+  /**
+   * Room-level shared state, when the room defines `state`
+   * @see @src/actor/runtime/state.ts
+   */
+  state: RoomState;
+
+  /**
+   * Alarm callback for runtime timers (resume grace expiry, ...).
+   * Scheduled through `alarms.schedule()`; not meant to be called directly.
+   * @internal
+   */
+  onVeraniAlarm(payload: VeraniAlarmPayload): Promise<void>;
+}
+
+/**
+ * Presence API of an actor. Lists are empty when the room does not enable `presence`.
+ */
+export interface ActorPresence {
+  /** Lists the users present in a channel */
+  list(channel: string): PresenceUser[];
+  /** Gets a user's presence in a channel */
+  get(channel: string, userId: string): PresenceUser | undefined;
+  /**
+   * Merges fields into a user's public state in every channel they are present in
+   * and broadcasts the change. Fields set to `undefined` are removed.
+   */
+  update(userId: string, state: Record<string, unknown>): void;
 }
 
 /**
- * Event handler function type for socket.io-like event handling
+ * Room-level shared state of an actor, synced to subscribed clients as JSON patches
  */
-export type EventHandler<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> = (
-  ctx: MessageContext<TMeta, E>,
-  data: any
+export interface RoomState {
+  /** Incremented by every update that changes the state (0 before the first one) */
+  readonly version: number;
+  /** Gets a copy of the current state. Mutating it changes nothing; use `update()`. */
+  get<T = any>(): T;
+  /**
+   * Changes the state. `fn` receives a copy to mutate, or returns the next state.
+   * The result is persisted and its diff is sent to subscribed clients.
+   * The state must be JSON-serializable.
+   * @returns A copy of the new state
+   * @throws If the room does not define `state`
+   */
+  update<T = any>(fn: (draft: T) => T | void): T;
+}
+
+/**
+ * Payload of a runtime timer scheduled on the actor's alarms
+ * @internal
+ */
+export type VeraniAlarmPayload =
+  | { kind: "resume"; clientId: string }
+  | { kind: "disconnect"; userId: string; clientId: string }
+  | { kind: "emit"; jobId: string }
+  | { kind: "sweep" }
+  | { kind: "ratelimit"; keys: string[] };
+
+/**
+ * Event handler function type for socket.io-like event handling.
+ * The returned value is sent back to the client when the event was emitted with an ack.
+ * @typeParam TData - Payload type of the handled event
+ * @typeParam TServerEvents - Events the room may emit back to clients
+ */
+export type EventHandler<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TData = any,
+  TServerEvents extends EventMap = EventMap
+> = (
+  ctx: MessageContext<TMeta, E, TServerEvents>,
+  data: TData
+) => unknown | Promise<unknown>;
+
+/**
+ * Room middleware wrapping every dispatched event (Koa-style).
+ * Call `await next()` to continue to the next middleware and finally the event handlers;
+ * return without calling it to stop the event. Errors thrown here are passed to `onError`.
+ */
+export type Middleware<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TServerEvents extends EventMap = EventMap
+> = (
+  ctx: MessageContext<TMeta, E, TServerEvents>,
+  next: () => Promise<void>
 ) => void | Promise<void>;
 
+/**
+ * A single validation problem reported by a Standard Schema validator
+ */
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Result of a Standard Schema validation: either the parsed value or a list of issues
+ */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+/**
+ * Standard Schema v1 interface (https://standardschema.dev).
+ * Implemented by Zod, Valibot, ArkType and other validators, so any of them
+ * can be passed as an event schema without Verani depending on a specific library.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output } | undefined;
+  };
+}
+
+/**
+ * Extracts the parsed output type of a Standard Schema
+ */
+export type InferSchemaOutput<TSchema> = TSchema extends StandardSchemaV1<any, infer Output> ? Output : never;
+
+/**
+ * Options accepted by `room.on(event, options, handler)`
+ */
+export interface EventHandlerOptions<TSchema extends StandardSchemaV1 = StandardSchemaV1> {
+  /**
+   * Validator for the event payload. Frames that fail validation are rejected with an
+   * `error` frame (code `VALIDATION_FAILED`) and never reach the handlers.
+   * Handlers receive the validator's parsed output instead of the raw payload.
+   * Not allowed on the "*" wildcard: `room.on()` throws.
+   */
+  schema?: TSchema;
+}
+
 /**
  * Event emitter interface for room-level event handling
  */
@@ -205,8 +528,9 @@ export interface RoomEventEmitter<TMeta extends ConnectionMeta = ConnectionMeta,
    * @param event - Event name
    * @param ctx - Message context
    * @param data - Event data
+   * @returns The first value returned by a handler for this event, used as the ack reply
    */
-  emit(event: string, ctx: MessageContext<TMeta, E>, data: any): Promise<void>;
+  emit(event: string, ctx: MessageContext<TMeta, E>, data: any): Promise<unknown>;
 
   /**
    * Rebuild handlers from static storage.
@@ -220,78 +544,347 @@ export interface RoomEventEmitter<TMeta extends ConnectionMeta = ConnectionMeta,
 /**
  * Builder interface for targeting specific scopes when emitting
  */
-export interface EmitBuilder<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> {
+export interface EmitBuilder<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TEvents extends EventMap = EventMap
+> {
   /**
    * Emit to the targeted scope
    * @param event - Event name
    * @param data - Event data
    * @returns Number of connections that received the message
    */
-  emit(event: string, data?: any): number;
+  emit<K extends keyof TEvents & string>(event: K, data?: TEvents[K]): number;
 }
 
 /**
  * Socket-level emit API (available on context)
  * Allows emitting to current socket, user, or channel
  */
-export interface SocketEmit<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> {
+export interface SocketEmit<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TEvents extends EventMap = EventMap
+> {
   /**
    * Emit to the current socket
    * @param event - Event name
    * @param data - Event data
    */
-  emit(event: string, data?: any): void;
+  emit<K extends keyof TEvents & string>(event: K, data?: TEvents[K]): void;
 
   /**
    * Target a specific user or channel for emitting
    * @param target - User ID or channel name
    * @returns Builder for emitting to the target
    */
-  to(target: string): EmitBuilder<TMeta, E>;
+  to(target: string): EmitBuilder<TMeta, E, TEvents>;
 }
 
 /**
  * Actor-level emit API (available on actor)
  * Allows broadcasting to channels
  */
-export interface ActorEmit<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> {
+export interface ActorEmit<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TEvents extends EventMap = EventMap
+> {
   /**
    * Broadcast to default channel
    * @param event - Event name
    * @param data - Event data
    * @returns Number of connections that received the message
    */
-  emit(event: string, data?: any): number;
+  emit<K extends keyof TEvents & string>(event: K, data?: TEvents[K]): number;
 
   /**
    * Target a specific channel for broadcasting
    * @param channel - Channel name
    * @returns Builder for emitting to the channel
    */
-  to(channel: string): EmitBuilder<TMeta, E>;
+  to(channel: string): EmitBuilder<TMeta, E, TEvents>;
 }
 
 /**
  * Context provided to room lifecycle hooks
  */
-export interface RoomContext<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> {
+export interface RoomContext<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TServerEvents extends EventMap = EventMap
+> {
   /** The actor instance handling this connection */
-  actor: VeraniActor<TMeta, E>;
+  actor: VeraniActor<TMeta, E, TServerEvents>;
   /** The WebSocket connection */
   ws: WebSocket;
   /** Connection metadata */
   meta: TMeta;
   /** Socket.io-like emit API for this connection */
-  emit: SocketEmit<TMeta, E>;
+  emit: SocketEmit<TMeta, E, TServerEvents>;
+  /**
+   * In `onConnect`: true when this connection cancelled a pending grace-period
+   * `onDisconnect` of the same user (e.g. a page refresh)
+   */
+  reconnected?: boolean;
 }
 
 /**
  * Context for onMessage hook with frame included
  */
-export interface MessageContext<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown>
-  extends RoomContext<TMeta, E> {
+export interface MessageContext<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TServerEvents extends EventMap = EventMap
+> extends RoomContext<TMeta, E, TServerEvents> {
   /** The received message frame */
   frame: MessageFrame;
+  /**
+   * Rejects the frame: sends the sender an `error` frame carrying `code`, `message`,
+   * the frame's event type and its `requestId`, and suppresses the ack.
+   * Only the first call sends anything.
+   * @example
+   * ```typescript
+   * room.on("chat.message", (ctx, data) => {
+   *   if (ctx.meta.muted) {
+   *     return ctx.reject("MUTED", "You are muted in this room");
+   *   }
+   * });
+   * ```
+   */
+  reject(code: string, message: string): void;
+}
+
+/**
+ * Error frame sent for an unhandled handler error when the room sets `exposeErrors`
+ */
+export interface ExposedError {
+  /** Machine-readable error code */
+  code: string;
+  /** Message safe to show to the client */
+  message: string;
+}
+
+/**
+ * Token bucket settings: up to `capacity` messages in a burst, refilled continuously
+ */
+export interface TokenBucketConfig {
+  /** Maximum number of tokens (burst size) */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Built-in rate limiting for incoming frames.
+ * Every configured bucket is charged one token per frame; the frame is rejected
+ * if any of them is empty. Bucket state is kept in Durable Object storage so
+ * limits survive hibernation.
+ */
+export interface RateLimitConfig {
+  /** Limit for each WebSocket connection */
+  perConnection?: TokenBucketConfig;
+  /** Limit shared by all connections of the same userId */
+  perUser?: TokenBucketConfig;
+  /** Limits for specific event types, applied per connection */
+  perEvent?: Record<string, TokenBucketConfig>;
+  /**
+   * What happens to an offending frame (default: "warn"):
+   * - `warn`: drop it and send a `RATE_LIMITED` error frame to the sender
+   * - `drop`: drop it silently
+   * - `disconnect`: close the connection with `closeCode`
+   */
+  policy?: "warn" | "drop" | "disconnect";
+  /** Close code used by the `disconnect` policy (default: `CloseCodes.RATE_LIMITED`) */
+  closeCode?: number;
+  /** Close reason used by the `disconnect` policy */
+  closeReason?: string;
+}
+
+/**
+ * Per-channel message history kept in Durable Object storage.
+ * Clients that reconnect with a "last seen" cursor are sent the broadcasts they missed.
+ */
+export interface HistoryConfig {
+  /** Channels to keep history for, or "*" for every channel */
+  channels: string[] | "*";
+  /** Maximum number of messages kept per channel (default: 100) */
+  maxMessages?: number;
+  /** Messages older than this are not replayed and are deleted (default: no expiry) */
+  ttlMs?: number;
+}
+
+/**
+ * Limits of the per-user offline inbox used by `{ persistIfOffline: true }`
+ */
+export interface InboxConfig {
+  /** Maximum number of queued frames per user; the oldest are dropped first (default: 100) */
+  maxMessages?: number;
+  /** Queued frames older than this are discarded (default: 7 days) */
+  ttlMs?: number;
+}
+
+/**
+ * Built-in presence tracking. Members of tracked channels receive `presence` frames
+ * when a user joins, leaves or changes state; users with several connections count once.
+ */
+export interface PresenceConfig<TMeta extends ConnectionMeta = ConnectionMeta> {
+  /** Channels to track, or "*" for every channel (default: "*") */
+  channels?: string[] | "*";
+  /** Builds a user's initial public state from the meta of their first connection (default: `{}`) */
+  state?(meta: TMeta): Record<string, unknown>;
+}
+
+/**
+ * Periodic sweep of dead connections, run from a Durable Object alarm while the room has sessions.
+ * Connections that are no longer open, or that sent no frame (pings included) for `staleAfterMs`,
+ * are closed with `CloseCodes.STALE_CONNECTION` and go through `onDisconnect`.
+ */
+export interface SweepConfig {
+  /** Time between sweeps in milliseconds (default: 60000) */
+  intervalMs?: number;
+  /**
+   * Silence after which a connection is stale, in milliseconds (default: 30000).
+   * Keep it well above the client `pingInterval`; clients with pings disabled must send messages instead.
+   */
+  staleAfterMs?: number;
+}
+
+/**
+ * Server-enforced heartbeat. Clients are told to ping every `pingIntervalMs` in the `welcome` frame,
+ * and connections that sent no frame for `idleTimeoutMs` are closed with `CloseCodes.IDLE_TIMEOUT`.
+ * Idle connections are detected by the session sweep, which runs while the room has sessions.
+ */
+export interface HeartbeatConfig {
+  /** Silence after which a connection is closed, in milliseconds */
+  idleTimeoutMs: number;
+  /** Ping interval announced to clients, in milliseconds (default: a third of `idleTimeoutMs`) */
+  pingIntervalMs?: number;
+}
+
+/**
+ * Fields shared by every telemetry record
+ */
+export interface TelemetryRecord {
+  /** Room name, or `websocketPath` if unnamed */
+  roomName: string;
+  /** When the operation started (ms since epoch) */
+  startTime: number;
+  /** How long the operation took, in milliseconds */
+  durationMs: number;
+  /** Error thrown by the operation, if it failed */
+  error?: unknown;
+}
+
+/**
+ * A connection was accepted, or failed while being set up
+ */
+export interface ConnectTelemetry extends TelemetryRecord {
+  /** Undefined if the connection failed before its metadata was extracted */
+  userId?: string;
+  clientId?: string;
+  /** Whether a previous session was resumed */
+  resumed: boolean;
+}
+
+/**
+ * A session's connection closed
+ */
+export interface DisconnectTelemetry extends TelemetryRecord {
+  userId: string;
+  clientId: string;
+  /** Close code, if known */
+  code?: number;
+}
+
+/**
+ * A client event went through the middleware stack and its handlers (or `onMessage`)
+ */
+export interface EventTelemetry extends TelemetryRecord {
+  event: string;
+  channel?: string;
+  userId: string;
+  clientId: string;
+}
+
+/**
+ * A frame was fanned out to a channel or to a user's sessions
+ */
+export interface BroadcastTelemetry extends TelemetryRecord {
+  channel: string;
+  /** Set when the frame targeted one user's sessions */
+  userId?: string;
+  /** Sessions the frame was sent to */
+  recipients: number;
+  /** Sessions that were closed or whose send threw, and were dropped */
+  failures: number;
+}
+
+/**
+ * The actor woke up with live connections and restored their sessions
+ */
+export interface RestoreTelemetry extends TelemetryRecord {
+  /** Sessions restored */
+  sessions: number;
+}
+
+/**
+ * Observability hooks of a room. Each hook receives one record once the operation is over;
+ * errors thrown by hooks are logged and ignored.
+ * `createOpenTelemetry()` returns hooks emitting OpenTelemetry spans and metrics.
+ */
+export interface RoomTelemetry {
+  connect?(record: ConnectTelemetry): void;
+  disconnect?(record: DisconnectTelemetry): void;
+  event?(record: EventTelemetry): void;
+  broadcast?(record: BroadcastTelemetry): void;
+  restore?(record: RestoreTelemetry): void;
+}
+
+/**
+ * Handler of the onDisconnect hook
+ */
+export type DisconnectHandler<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TServerEvents extends EventMap = EventMap
+> = (ctx: RoomContext<TMeta, E, TServerEvents>) => void | Promise<void>;
+
+/**
+ * onDisconnect hook debounced by a grace period
+ */
+export interface GracefulDisconnect<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TServerEvents extends EventMap = EventMap
+> {
+  /**
+   * Milliseconds to wait before calling `handler`. If the same userId connects again
+   * within the window, the pending call is dropped instead.
+   */
+  graceMs: number;
+  /** The disconnect hook */
+  handler: DisconnectHandler<TMeta, E, TServerEvents>;
+}
+
+/**
+ * Session resumption settings. Clients that drop and reconnect within `graceMs`
+ * get back their previous clientId and channels without `onDisconnect`/`onConnect` running.
+ */
+export interface ResumeConfig {
+  /**
+   * HMAC secret used to sign resume tokens. Pass a function to read it lazily,
+   * e.g. `() => env.RESUME_SECRET` with `import { env } from "cloudflare:workers"`.
+   */
+  secret: string | (() => string);
+  /** How long a dropped session can be resumed, in milliseconds (default: 30000) */
+  graceMs?: number;
+  /**
+   * Lifetime of a resume token, in milliseconds (default: 24 hours).
+   * Connections older than this cannot be resumed when they drop.
+   */
+  tokenTtlMs?: number;
 }
 
 /**
@@ -300,14 +893,30 @@ export interface MessageContext<TMeta extends ConnectionMeta = ConnectionMeta, E
  * **Important:** All lifecycle hooks are properly awaited if they return a Promise.
  * This ensures async operations complete before the actor proceeds to the next step
  * or potentially enters hibernation.
+ *
+ * @typeParam TClientEvents - Events clients send to the room (handled via `room.on()`)
+ * @typeParam TServerEvents - Events the room emits to clients (via `ctx.emit` / `actor.emit`)
  */
-export interface RoomDefinition<TMeta extends ConnectionMeta = ConnectionMeta, E = unknown> {
+export interface RoomDefinition<
+  TMeta extends ConnectionMeta = ConnectionMeta,
+  E = unknown,
+  TClientEvents extends EventMap = EventMap,
+  TServerEvents extends EventMap = EventMap
+> {
   /** Optional room name for debugging */
   name?: string;
 
   /** WebSocket upgrade path (default: "/ws") */
   websocketPath: string;
 
+  /**
+   * Authorize a connection before the WebSocket upgrade happens.
+   * Return `false` to reject with HTTP 403, or return a `Response` (e.g. a 401 with a body)
+   * to reject with that exact response. Returning `true` or nothing allows the upgrade.
+   * This hook is awaited if it returns a Promise. If it throws, the request is rejected with HTTP 500.
+   */
+  authorize?(req: Request, actor: VeraniActor<TMeta, E, TServerEvents>): boolean | Response | undefined | Promise<boolean | Response | undefined>;
+
   /**
    * Extract metadata from the connection request.
    * This function is awaited if it returns a Promise.
@@ -320,14 +929,18 @@ export interface RoomDefinition<TMeta extends ConnectionMeta = ConnectionMeta, E
    * sessions map after this hook completes successfully. If this hook throws, the
    * connection is closed and no orphaned session is created.
    */
-  onConnect?(ctx: RoomContext<TMeta, E>): void | Promise<void>;
+  onConnect?(ctx: RoomContext<TMeta, E, TServerEvents>): void | Promise<void>;
 
   /**
    * Called when a WebSocket connection is closed.
    * This hook is awaited if it returns a Promise. The session is removed from the
    * sessions map before this hook is called.
+   *
+   * Pass `{ graceMs, handler }` to debounce it: the handler then runs from a Durable Object
+   * alarm after `graceMs`, unless the same userId connects again first. Each reconnect
+   * cancels one pending call and runs `onConnect` with `ctx.reconnected` set.
    */
-  onDisconnect?(ctx: RoomContext<TMeta, E>): void | Promise<void>;
+  onDisconnect?: DisconnectHandler<TMeta, E, TServerEvents> | GracefulDisconnect<TMeta, E, TServerEvents>;
 
   /**
    * Called when a message is received from a connection.
@@ -337,20 +950,106 @@ export interface RoomDefinition<TMeta extends ConnectionMeta = ConnectionMeta, E
    * **Note:** If event handlers are registered via `eventEmitter`, they take priority.
    * This hook is used as a fallback when no matching event handler is found.
    */
-  onMessage?(ctx: MessageContext<TMeta, E>, frame: MessageFrame): void | Promise<void>;
+  onMessage?(ctx: MessageContext<TMeta, E, TServerEvents>, frame: MessageFrame): void | Promise<void>;
+
+  /**
+   * Called when a connection asks to join a channel at runtime via a reserved `join` frame.
+   * Return `false` to deny the subscription. This hook is awaited if it returns a Promise.
+   * If not defined, all join requests are allowed.
+   */
+  authorizeJoin?(ctx: MessageContext<TMeta, E, TServerEvents>, channel: string): boolean | Promise<boolean>;
 
   /**
    * Called when an error occurs in a lifecycle hook.
    * This hook is also awaited if it returns a Promise.
    */
-  onError?(error: Error, ctx: RoomContext<TMeta, E>): void | Promise<void>;
+  onError?(error: Error, ctx: RoomContext<TMeta, E, TServerEvents>): void | Promise<void>;
+
+  /**
+   * Opt-in reporting of errors thrown by event handlers, middleware and `onMessage` to the sender.
+   * `true` sends a sanitized `error` frame (code `INTERNAL_ERROR`, message "Internal server error");
+   * a function maps the error to the code and message to send, or returns undefined to send nothing.
+   * Either way `onError` is still called. Off by default, so clients learn nothing about failures,
+   * except that frames sent with `emitWithAck()` always get the sanitized error instead of a timeout.
+   */
+  exposeErrors?: boolean | ((error: unknown, ctx: MessageContext<TMeta, E, TServerEvents>) => ExposedError | undefined);
 
   /**
    * Called after actor wakes from hibernation and sessions are restored.
    * This hook is awaited if it returns a Promise. It is called even if some
    * sessions failed to restore, allowing you to handle partial restoration scenarios.
    */
-  onHibernationRestore?(actor: VeraniActor<TMeta, E>): void | Promise<void>;
+  onHibernationRestore?(actor: VeraniActor<TMeta, E, TServerEvents>): void | Promise<void>;
+
+  /**
+   * Rate limits enforced on every incoming frame before dispatch (including join/leave).
+   * Pings are never limited.
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Opt-in channel history. Broadcasts to the configured channels get a `seq` number
+   * and are stored so reconnecting clients can replay what they missed.
+   */
+  history?: HistoryConfig;
+
+  /**
+   * Caps and expiry of the offline inbox. Frames sent with `{ persistIfOffline: true }`
+   * to a user with no receiving session are queued and delivered on their next connection.
+   */
+  inbox?: InboxConfig;
+
+  /**
+   * Meta fields sent to the client in the `session` frame after `onConnect` succeeds,
+   * either as a list of keys or as a function building the payload.
+   * Defaults to `["userId", "clientId"]`. Never expose secrets kept in meta.
+   */
+  exposeSession?: Array<keyof TMeta & string> | ((meta: TMeta) => Record<string, unknown>);
+
+  /**
+   * Opt-in session resumption. The `session` frame then carries a signed resume token;
+   * a client reconnecting with it within the grace window keeps its clientId and channels.
+   * `onDisconnect` is deferred until the window ends and skipped if the session resumes.
+   */
+  resume?: ResumeConfig;
+
+  /**
+   * Opt-in presence tracking, persisted in Durable Object storage. A user leaves a channel
+   * when their last connection does, after the onDisconnect grace period or resume window.
+   */
+  presence?: PresenceConfig<TMeta>;
+
+  /**
+   * Initial value of the room's shared state, exposed as `actor.state`.
+   * The state is persisted in Durable Object storage; clients subscribe with `client.state(name)`,
+   * where name is the room's `name` (or `websocketPath` if unnamed).
+   */
+  state?: Record<string, any>;
+
+  /**
+   * Opt-in periodic sweep of stale connections, so dead sockets do not linger in `actor.sessions`
+   * and presence. Without it, stale sessions are only removed by `cleanupStaleSessions()`.
+   */
+  sweep?: SweepConfig;
+
+  /**
+   * Opt-in idle timeout. Clients are asked to ping often enough in the `welcome` frame,
+   * and connections that stay silent for `idleTimeoutMs` are closed.
+   */
+  heartbeat?: HeartbeatConfig;
+
+  /**
+   * Let the Durable Object runtime answer client pings (`setWebSocketAutoResponse`), so keepalive
+   * traffic no longer wakes a hibernating actor. Clients are told in the `welcome` frame to send
+   * the fixed `AUTO_RESPONSE_PING`. `sweep` and `heartbeat` count auto-answered pings as activity.
+   */
+  autoResponse?: boolean;
+
+  /**
+   * Observability hooks called for connections, disconnections, dispatched events,
+   * broadcasts and hibernation restores
+   */
+  telemetry?: RoomTelemetry;
 
   /**
    * Event emitter for socket.io-like event handling.
@@ -365,4 +1064,16 @@ export interface RoomDefinition<TMeta extends ConnectionMeta = ConnectionMeta, E
    * @internal
    */
   _staticHandlers?: Map<string, Set<EventHandler<TMeta, E>>>;
+
+  /**
+   * Static per-event payload schemas registered via room.on(event, { schema }, handler).
+   * @internal
+   */
+  _schemas?: Map<string, StandardSchemaV1>;
+
+  /**
+   * Static middleware stack registered via room.use(), in registration order.
+   * @internal
+   */
+  _middleware?: Middleware<TMeta, E>[];
 }
@@ -13,9 +13,14 @@
 
 export { VeraniClient } from "./client/client";
 export type { VeraniClientOptions } from "./client/client";
+export type { ClientLifecycleEvents, ClientListenerEvents } from "./client/runtime/eventEmitter";
+export type { ClientPresence } from "./client/runtime/presence";
+export type { LiveState, StateListener } from "./client/runtime/state";
 
-export { ConnectionManager, DEFAULT_RECONNECTION_CONFIG } from "./client/connection";
-export type { ConnectionState, ReconnectionConfig } from "./client/connection";
+export { ProtocolVersionError, ServerError } from "./client/errors";
+
+export { ConnectionManager, DEFAULT_RECONNECTION_CONFIG, DEFAULT_CLOSE_CODE_POLICIES } from "./client/connection";
+export type { ConnectionState, ReconnectionConfig, ReconnectPolicy } from "./client/connection";
 
 // ============================================================================
 // Shared exports - Protocol and types
@@ -24,7 +29,15 @@ export type { ConnectionState, ReconnectionConfig } from "./client/connection";
 export type {
   ClientMessage,
   ServerMessage,
-  VeraniMessage
+  VeraniMessage,
+  EventMap,
+  ErrorFrameData,
+  WelcomeFrameData,
+  KeepaliveSettings,
+  SessionFrameData,
+  PresenceUser,
+  PresenceFrameData,
+  StateFrameData
 } from "./shared/types";
 
 export {
@@ -39,5 +52,16 @@ export {
   decodeServerMessage
 } from "./shared/decode";
 
+export { jsonCodec } from "./shared/codec";
+export type { Codec, RawFrame } from "./shared/codec";
+export { silentLogger, createConsoleLogger } from "./shared/logger";
+export type { Logger, LogLevel, LogFields, ConsoleLoggerOptions } from "./shared/logger";
+export { msgpackCodec, encodeMsgpack, decodeMsgpack } from "./shared/msgpack";
+export { diffJson, applyJsonPatch } from "./shared/jsonPatch";
+export type { JsonPatchOperation } from "./shared/jsonPatch";
+
 export { PROTOCOL_VERSION } from "./shared/types";
+export { PROTOCOL_VERSION_PARAM, AUTO_RESPONSE_PING, AUTO_RESPONSE_PONG, isCompatibleProtocolVersion } from "./shared/handshake";
+export { CloseCodes } from "./shared/closeCodes";
+export type { CloseCode } from "./shared/closeCodes";
 
@@ -4,19 +4,36 @@ import type { ConnectionState } from "./connection";
 import { VeraniClientOptions, resolveClientOptions, type ResolvedClientOptions } from "./runtime/configuration";
 import { MessageQueue, type QueuedMessage } from "./runtime/messageQueue";
 import { KeepaliveManager } from "./runtime/keepalive";
-import { EventEmitter } from "./runtime/eventEmitter";
+import { EventEmitter, type ClientListenerEvents } from "./runtime/eventEmitter";
 import { ConnectionHandler, type ConnectionPromiseState } from "./runtime/connection";
+import { ChannelManager } from "./runtime/channels";
+import { AckManager } from "./runtime/acks";
+import { HandshakeState } from "./runtime/handshake";
+import { PresenceStore, type ClientPresence } from "./runtime/presence";
+import { StateManager, type LiveState } from "./runtime/state";
+import type { EventMap, WelcomeFrameData, SessionFrameData } from "../shared/types";
+import { CloseCodes } from "../shared/closeCodes";
 
 // Re-export VeraniClientOptions for backward compatibility
 export type { VeraniClientOptions };
 
 /**
  * Verani WebSocket client with automatic reconnection and lifecycle management
+ * @typeParam TServerEvents - Event map of server-to-client events accepted by `on()`/`once()`
+ * @typeParam TClientEvents - Event map of client-to-server events accepted by `emit()`
  */
-export class VeraniClient {
+export class VeraniClient<
+  TServerEvents extends EventMap = EventMap,
+  TClientEvents extends EventMap = EventMap
+> {
   private connectionHandler: ConnectionHandler;
   private connectionManager: ConnectionManager;
   private messageQueue: MessageQueue;
+  private channels: ChannelManager;
+  private acks: AckManager;
+  private handshake: HandshakeState;
+  private presenceStore: PresenceStore;
+  private states: StateManager;
   private keepalive: KeepaliveManager;
   private eventEmitter: EventEmitter;
   private options: ResolvedClientOptions;
@@ -54,11 +71,17 @@ export class VeraniClient {
       this.options.reconnection,
       (state) => {
         this.onStateChangeCallback?.(state);
-      }
+      },
+      this.options.logger
     );
 
-    this.messageQueue = new MessageQueue(this.options.maxQueueSize);
-    this.eventEmitter = new EventEmitter();
+    this.messageQueue = new MessageQueue(this.options.maxQueueSize, this.options.codec, this.options.logger);
+    this.channels = new ChannelManager(this.options.codec, this.options.logger);
+    this.acks = new AckManager(this.options.logger);
+    this.handshake = new HandshakeState();
+    this.presenceStore = new PresenceStore();
+    this.states = new StateManager(() => this.connectionHandler.getWebSocket(), this.options.codec, this.options.logger);
+    this.eventEmitter = new EventEmitter(this.options.logger);
 
     // Create a ref object that both ConnectionHandler and VeraniClient can access
     this.isConnectingRef = { value: false };
@@ -69,7 +92,7 @@ export class VeraniClient {
       () => {
         const ws = this.connectionHandler.getWebSocket();
         if (ws) {
-          ws.close(1006, "Pong timeout");
+          ws.close(CloseCodes.PONG_TIMEOUT, "Pong timeout");
         }
       }
     );
@@ -81,6 +104,11 @@ export class VeraniClient {
       this.keepalive,
       this.eventEmitter,
       this.messageQueue,
+      this.channels,
+      this.acks,
+      this.handshake,
+      this.presenceStore,
+      this.states,
       this.connectionPromiseState,
       this.isConnectingRef,
       () => this.isConnected(),
@@ -151,6 +179,44 @@ export class VeraniClient {
     };
   }
 
+  /**
+   * Server version and capabilities from the latest `welcome` frame.
+   * Undefined until the first handshake completes, or if the server predates version negotiation.
+   */
+  get serverInfo(): WelcomeFrameData | undefined {
+    return this.handshake.getWelcome();
+  }
+
+  /**
+   * Meta fields the server exposed for this connection (by default `userId` and `clientId`).
+   * Undefined until the first `session` frame arrives; kept while reconnecting.
+   */
+  get session(): SessionFrameData | undefined {
+    return this.handshake.getSession();
+  }
+
+  /**
+   * Users present in the channels this client is subscribed to, when the room enables presence.
+   * Kept in sync by the server; the last known members stay readable while reconnecting.
+   */
+  get presence(): ClientPresence {
+    return this.presenceStore;
+  }
+
+  /**
+   * Gets the live shared state of a room, subscribing to it on first use.
+   * The subscription is renewed on every reconnect.
+   * @param room - The room's `name`, or its `websocketPath` if it has none
+   * @example
+   * ```typescript
+   * const board = client.state<Board>("whiteboard");
+   * const stop = board.subscribe((value) => render(value));
+   * ```
+   */
+  state<T = any>(room: string): LiveState<T> {
+    return this.states.get<T>(room);
+  }
+
   /**
    * Waits for the connection to be established
    * @returns Promise that resolves when connected
@@ -192,7 +258,10 @@ export class VeraniClient {
    * @param event - Event type to listen for
    * @param callback - Callback function to invoke when event is received
    */
-  on(event: string, callback: (data: any) => void): void {
+  on<K extends keyof ClientListenerEvents<TServerEvents> & string>(
+    event: K,
+    callback: (data: ClientListenerEvents<TServerEvents>[K]) => void
+  ): void {
     this.eventEmitter.on(event, callback);
   }
 
@@ -201,7 +270,10 @@ export class VeraniClient {
    * @param event - Event type to remove listener from
    * @param callback - Callback function to remove
    */
-  off(event: string, callback: (data: any) => void): void {
+  off<K extends keyof ClientListenerEvents<TServerEvents> & string>(
+    event: K,
+    callback: (data: ClientListenerEvents<TServerEvents>[K]) => void
+  ): void {
     this.eventEmitter.off(event, callback);
   }
 
@@ -210,7 +282,10 @@ export class VeraniClient {
    * @param event - Event type to listen for
    * @param callback - Callback function to invoke once
    */
-  once(event: string, callback: (data: any) => void): void {
+  once<K extends keyof ClientListenerEvents<TServerEvents> & string>(
+    event: K,
+    callback: (data: ClientListenerEvents<TServerEvents>[K]) => void
+  ): void {
     this.eventEmitter.once(event, callback);
   }
 
@@ -219,18 +294,42 @@ export class VeraniClient {
    * @param type - Message type
    * @param data - Optional message data
    */
-  emit(type: string, data?: any): void {
-    console.debug("[Verani:Client] Emitting message, type:", type);
-    const msg: QueuedMessage = { type, data };
+  emit<K extends keyof TClientEvents & string>(type: K, data?: TClientEvents[K]): void {
+    this.options.logger.debug("[Verani:Client] Emitting message, type:", type);
+    this.send({ type, data });
+  }
 
+  /**
+   * Sends a message to the server and waits for the handler's return value
+   * @param type - Message type
+   * @param data - Optional message data
+   * @param options - Ack options (timeout in milliseconds, defaults to `ackTimeout`)
+   * @returns Promise resolving with the server handler's return value.
+   * Rejects on timeout or if the connection closes before the ack arrives.
+   */
+  emitWithAck<T = any, K extends keyof TClientEvents & string = keyof TClientEvents & string>(
+    type: K,
+    data?: TClientEvents[K],
+    options: { timeout?: number } = {}
+  ): Promise<T> {
+    const { id, promise } = this.acks.create<T>(options.timeout ?? this.options.ackTimeout);
+    this.options.logger.debug("[Verani:Client] Emitting message with ack, type:", type, "id:", id);
+    this.send({ type, data, id });
+    return promise;
+  }
+
+  /**
+   * Sends a message if connected, otherwise queues it for the next connection
+   */
+  private send(msg: QueuedMessage): void {
     if (this.isConnected()) {
       const ws = this.connectionHandler.getWebSocket();
       if (ws) {
         try {
-          ws.send(encodeClientMessage(msg));
-          console.debug("[Verani:Client] Message sent successfully");
+          ws.send(encodeClientMessage(msg, this.options.codec));
+          this.options.logger.debug("[Verani:Client] Message sent successfully");
         } catch (error) {
-          console.error("[Verani] Failed to send message:", error);
+          this.options.logger.error("[Verani] Failed to send message:", error);
           // Queue message if send fails
           this.messageQueue.queueMessage(msg);
         }
@@ -241,6 +340,46 @@ export class VeraniClient {
     }
   }
 
+  /**
+   * Subscribes this connection to a channel at runtime.
+   * The subscription is re-applied automatically after every reconnect.
+   * The server replies with a `channel.joined` or `channel.denied` event.
+   * @param channel - Channel to join
+   */
+  join(channel: string): void {
+    this.options.logger.debug("[Verani:Client] Joining channel:", channel);
+    this.channels.join(channel);
+
+    // When offline the join is sent on the next (re)connection
+    const ws = this.connectionHandler.getWebSocket();
+    if (ws && this.isConnected()) {
+      this.channels.send(ws, "join", channel);
+    }
+  }
+
+  /**
+   * Unsubscribes this connection from a channel at runtime.
+   * The server replies with a `channel.left` event.
+   * @param channel - Channel to leave
+   */
+  leave(channel: string): void {
+    this.options.logger.debug("[Verani:Client] Leaving channel:", channel);
+    this.channels.leave(channel);
+    this.presenceStore.clear(channel);
+
+    const ws = this.connectionHandler.getWebSocket();
+    if (ws && this.isConnected()) {
+      this.channels.send(ws, "leave", channel);
+    }
+  }
+
+  /**
+   * Gets the channels joined at runtime via `join()`
+   */
+  getChannels(): string[] {
+    return this.channels.getChannels();
+  }
+
   /**
    * Registers lifecycle callback for connection open
    */
@@ -273,7 +412,7 @@ export class VeraniClient {
    * Manually triggers a reconnection
    */
   reconnect(): void {
-    console.debug("[Verani:Client] Manual reconnect triggered");
+    this.options.logger.debug("[Verani:Client] Manual reconnect triggered");
 
     // Reset reconnection attempts for manual reconnect
     this.connectionManager.resetReconnection();
@@ -283,6 +422,10 @@ export class VeraniClient {
 
     // Cleanup existing connection without triggering auto-reconnection
     this.cleanupWebSocket();
+    this.acks.rejectAll(new Error("Connection reset before ack"));
+
+    // The server ends the session on a normal closure, so it cannot be resumed
+    this.handshake.clearResumeToken();
 
     // Clear state flags
     this.isConnectingRef.value = false;
@@ -296,7 +439,7 @@ export class VeraniClient {
    * Closes the connection without reconnecting
    */
   disconnect(): void {
-    console.debug("[Verani:Client] Disconnecting");
+    this.options.logger.debug("[Verani:Client] Disconnecting");
 
     // Cancel any pending reconnection
     this.connectionManager.cancelReconnect();
@@ -312,6 +455,8 @@ export class VeraniClient {
 
     // Cleanup WebSocket connection
     this.cleanupWebSocket();
+    this.acks.rejectAll(new Error("Connection disconnected before ack"));
+    this.handshake.clearResumeToken();
 
     // Update state
     this.connectionManager.setState("disconnected");
@@ -330,6 +475,9 @@ export class VeraniClient {
     this.disconnect();
     this.eventEmitter.clear();
     this.messageQueue.clear();
+    this.channels.clear();
+    this.presenceStore.clear();
+    this.states.clear();
     this.connectionManager.destroy();
   }
 }
@@ -2,8 +2,33 @@
  * Connection state management for Verani client
  */
 
+import { silentLogger, type Logger } from "../shared/logger";
+import { CloseCodes } from "../shared/closeCodes";
+
 export type ConnectionState = "connecting" | "connected" | "disconnected" | "reconnecting" | "error";
 
+/**
+ * How the client reacts when the connection closes with a given code:
+ * - `retry`: reconnect with backoff
+ * - `retry-with-new-auth`: get a new URL from the `refreshUrl` option, then reconnect with backoff
+ * - `stop`: stay disconnected
+ */
+export type ReconnectPolicy = "retry" | "retry-with-new-auth" | "stop";
+
+/**
+ * Reaction to each close code unless `ReconnectionConfig.closeCodePolicies` overrides it.
+ * Unlisted codes are retried.
+ */
+export const DEFAULT_CLOSE_CODE_POLICIES: Readonly<Record<number, ReconnectPolicy>> = {
+  1000: "stop",
+  1001: "stop",
+  [CloseCodes.PROTOCOL_VERSION_MISMATCH]: "stop",
+  [CloseCodes.RATE_LIMITED]: "stop",
+  [CloseCodes.AUTH_EXPIRED]: "retry-with-new-auth",
+  [CloseCodes.KICKED]: "stop",
+  [CloseCodes.BANNED]: "stop"
+};
+
 export interface ReconnectionConfig {
   /** Enable automatic reconnection */
   enabled: boolean;
@@ -15,6 +40,8 @@ export interface ReconnectionConfig {
   maxDelay: number;
   /** Backoff multiplier for exponential backoff */
   backoffMultiplier: number;
+  /** Reaction per close code, overriding DEFAULT_CLOSE_CODE_POLICIES */
+  closeCodePolicies?: Partial<Record<number, ReconnectPolicy>>;
 }
 
 export const DEFAULT_RECONNECTION_CONFIG: ReconnectionConfig = {
@@ -36,7 +63,8 @@ export class ConnectionManager {
 
   constructor(
     private config: ReconnectionConfig = DEFAULT_RECONNECTION_CONFIG,
-    private onStateChange?: (state: ConnectionState) => void
+    private onStateChange?: (state: ConnectionState) => void,
+    private logger: Logger = silentLogger
   ) {
     this.currentDelay = config.initialDelay;
   }
@@ -71,7 +99,7 @@ export class ConnectionManager {
     if (this.state !== newState) {
       // Validate state transition
       if (!this.isValidStateTransition(this.state, newState)) {
-        console.warn(
+        this.logger.warn(
           "[Verani:Connection] Invalid state transition:",
           this.state,
           "->",
@@ -79,7 +107,7 @@ export class ConnectionManager {
         );
       }
       
-      console.debug("[Verani:Connection] State change:", this.state, "->", newState);
+      this.logger.debug("[Verani:Connection] State change:", this.state, "->", newState);
       this.state = newState;
       this.onStateChange?.(newState);
     }
@@ -89,24 +117,31 @@ export class ConnectionManager {
    * Resets reconnection state (called on successful connection)
    */
   resetReconnection(): void {
-    console.debug("[Verani:Connection] Resetting reconnection state");
+    this.logger.debug("[Verani:Connection] Resetting reconnection state");
     this.reconnectAttempts = 0;
     this.currentDelay = this.config.initialDelay;
     this.clearReconnectTimer();
   }
 
+  /**
+   * Gets how to react to a close code
+   */
+  getReconnectPolicy(code: number): ReconnectPolicy {
+    return this.config.closeCodePolicies?.[code] ?? DEFAULT_CLOSE_CODE_POLICIES[code] ?? "retry";
+  }
+
   /**
    * Schedules a reconnection attempt
    */
   scheduleReconnect(connectFn: () => void): boolean {
     // Check if we should attempt reconnection
     if (!this.config.enabled) {
-      console.debug("[Verani:Connection] Reconnection disabled");
+      this.logger.debug("[Verani:Connection] Reconnection disabled");
       return false;
     }
 
     if (this.config.maxAttempts > 0 && this.reconnectAttempts >= this.config.maxAttempts) {
-      console.debug("[Verani:Connection] Max reconnection attempts reached:", this.reconnectAttempts);
+      this.logger.debug("[Verani:Connection] Max reconnection attempts reached:", this.reconnectAttempts);
       this.setState("error");
       return false;
     }
@@ -117,7 +152,7 @@ export class ConnectionManager {
     // Schedule reconnection
     this.setState("reconnecting");
     this.reconnectAttempts++;
-    console.debug("[Verani:Connection] Scheduling reconnect attempt", this.reconnectAttempts, "in", this.currentDelay, "ms");
+    this.logger.debug("[Verani:Connection] Scheduling reconnect attempt", this.reconnectAttempts, "in", this.currentDelay, "ms");
 
     this.reconnectTimer = setTimeout(() => {
       connectFn();
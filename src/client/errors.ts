@@ -0,0 +1,46 @@
+import { CloseCodes } from "../shared/closeCodes";
+import { PROTOCOL_VERSION } from "../shared/types";
+import type { ErrorFrameData } from "../shared/types";
+
+/**
+ * Raised when the server refuses the client's protocol version.
+ * The client does not reconnect after this error: upgrade the SDK to match the server.
+ */
+export class ProtocolVersionError extends Error {
+  /** Close code sent by the server */
+  readonly code = CloseCodes.PROTOCOL_VERSION_MISMATCH;
+  /** Protocol version announced by this client */
+  readonly clientVersion = PROTOCOL_VERSION;
+
+  constructor(reason: string) {
+    super(reason || "Unsupported protocol version");
+    this.name = "ProtocolVersionError";
+  }
+}
+
+/**
+ * Rejection of an `emitWithAck` request the server refused with an `error` frame,
+ * whether by failed validation, rate limiting, `ctx.reject` or an exposed handler error
+ */
+export class ServerError extends Error {
+  /** Machine-readable error code, e.g. `VALIDATION_FAILED` */
+  readonly code: string;
+  /** Event type of the refused request */
+  readonly event?: string;
+  /** Correlation id of the refused request */
+  readonly requestId?: string;
+  /** Validation issues, present when `code` is `VALIDATION_FAILED` */
+  readonly issues?: ErrorFrameData["issues"];
+  /** Milliseconds until the request would be accepted, present when `code` is `RATE_LIMITED` */
+  readonly retryAfterMs?: number;
+
+  constructor(data: ErrorFrameData) {
+    super(data.message || "Request rejected");
+    this.name = "ServerError";
+    this.code = data.code;
+    this.event = data.event;
+    this.requestId = data.requestId;
+    this.issues = data.issues;
+    this.retryAfterMs = data.retryAfterMs;
+  }
+}
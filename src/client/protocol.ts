@@ -6,35 +6,28 @@
 import { encodeFrame, encodeClientMessage as sharedEncodeClientMessage } from "../shared/encode";
 import { decodeFrame, decodeServerMessage as sharedDecodeServerMessage } from "../shared/decode";
 import type { ClientMessage, ServerMessage, MessageFrame } from "../shared/types";
+import { jsonCodec, type Codec } from "../shared/codec";
 
 export type { ClientMessage, ServerMessage, MessageFrame };
 
 /**
  * Encodes a client message to send to the server
  * @param msg - Message to encode
- * @returns JSON string representation
+ * @param codec - Wire format of the client (default: JSON)
+ * @returns Encoded message, ready for `ws.send()`
  */
-export function encodeClientMessage(msg: ClientMessage): string {
-  console.debug("[Verani:Protocol:Client] Encoding message:", { type: msg.type, channel: msg.channel });
-  const encoded = sharedEncodeClientMessage(msg);
-  console.debug("[Verani:Protocol:Client] Encoded length:", encoded.length);
-  return encoded;
+export function encodeClientMessage(msg: ClientMessage, codec: Codec = jsonCodec): string | Uint8Array {
+  return sharedEncodeClientMessage(msg, codec);
 }
 
 /**
  * Decodes a server message received from the server
  * @param raw - Raw WebSocket message data
+ * @param codec - Wire format of the client (default: JSON)
  * @returns Decoded message or null if invalid
  */
-export function decodeServerMessage(raw: any): MessageFrame | null {
-  console.debug("[Verani:Protocol:Client] Decoding server message, raw length:", typeof raw === "string" ? raw.length : "unknown");
-  const decoded = sharedDecodeServerMessage(raw);
-  if (decoded) {
-    console.debug("[Verani:Protocol:Client] Decoded successfully:", { type: decoded.type, channel: decoded.channel });
-  } else {
-    console.debug("[Verani:Protocol:Client] Decode failed");
-  }
-  return decoded;
+export function decodeServerMessage(raw: any, codec: Codec = jsonCodec): MessageFrame | null {
+  return sharedDecodeServerMessage(raw, codec);
 }
 
 // Re-export shared utilities
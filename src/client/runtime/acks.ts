@@ -0,0 +1,98 @@
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * A request waiting for its acknowledgement from the server
+ */
+interface PendingAck {
+  resolve: (data: any) => void;
+  reject: (error: Error) => void;
+  timer: number;
+}
+
+/**
+ * Tracks emitWithAck requests and matches server `ack` frames to them by correlation id
+ */
+export class AckManager {
+  private pending = new Map<string, PendingAck>();
+  private nextId = 0;
+
+  constructor(private logger: Logger = silentLogger) {}
+
+  /**
+   * Creates a pending acknowledgement that rejects after the given timeout
+   * @param timeout - Timeout in milliseconds
+   * @returns The correlation id and a promise for the server's reply
+   */
+  create<T = any>(timeout: number): { id: string; promise: Promise<T> } {
+    const id = String(++this.nextId);
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        if (this.pending.delete(id)) {
+          this.logger.debug("[Verani:Client] Ack timeout, id:", id);
+          reject(new Error(`Ack timeout after ${timeout}ms`));
+        }
+      }, timeout) as unknown as number;
+
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    return { id, promise };
+  }
+
+  /**
+   * Resolves a pending acknowledgement with the server's reply
+   * @returns true if a pending request matched the id
+   */
+  resolve(id: string, data: any): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      this.logger.debug("[Verani:Client] Received ack for unknown id:", id);
+      return false;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.resolve(data);
+    return true;
+  }
+
+  /**
+   * Rejects a single pending acknowledgement
+   * @returns true if a pending request matched the id
+   */
+  reject(id: string, error: Error): boolean {
+    const entry = this.pending.get(id);
+    if (!entry) {
+      return false;
+    }
+
+    this.pending.delete(id);
+    clearTimeout(entry.timer);
+    entry.reject(error);
+    return true;
+  }
+
+  /**
+   * Rejects every pending acknowledgement (called on disconnect)
+   */
+  rejectAll(error: Error): void {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    this.logger.debug("[Verani:Client] Rejecting", this.pending.size, "pending acks:", error.message);
+    for (const [id, entry] of this.pending) {
+      clearTimeout(entry.timer);
+      entry.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  /**
+   * Gets the number of requests still waiting for an ack
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+}
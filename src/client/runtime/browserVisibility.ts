@@ -3,6 +3,8 @@
  * Detects when browser tab becomes visible/invisible and provides callbacks
  */
 
+import { silentLogger, type Logger } from "../../shared/logger";
+
 /**
  * Type guard to check if we're in a browser environment with document API
  */
@@ -41,30 +43,31 @@ function isPageVisible(): boolean {
 /**
  * Sets up a visibility change listener
  * @param callback - Called when visibility changes, receives true if page is visible
+ * @param logger - Logger of the client
  * @returns Cleanup function to remove the listener
  */
-export function onVisibilityChange(callback: (isVisible: boolean) => void): (() => void) | null {
+export function onVisibilityChange(callback: (isVisible: boolean) => void, logger: Logger = silentLogger): (() => void) | null {
   const doc = getDocument();
   if (!doc) {
-    console.debug("[Verani:BrowserVisibility] Not in browser environment, skipping visibility listener");
+    logger.debug("[Verani:BrowserVisibility] Not in browser environment, skipping visibility listener");
     return null;
   }
 
   const handler = () => {
     const visible = isPageVisible();
-    console.debug("[Verani:BrowserVisibility] Visibility changed, visible:", visible);
+    logger.debug("[Verani:BrowserVisibility] Visibility changed, visible:", visible);
     callback(visible);
   };
 
   // Use the standard Page Visibility API
   doc.addEventListener("visibilitychange", handler);
 
-  console.debug("[Verani:BrowserVisibility] Visibility change listener attached");
+  logger.debug("[Verani:BrowserVisibility] Visibility change listener attached");
 
   // Return cleanup function
   return () => {
     doc.removeEventListener("visibilitychange", handler);
-    console.debug("[Verani:BrowserVisibility] Visibility change listener removed");
+    logger.debug("[Verani:BrowserVisibility] Visibility change listener removed");
   };
 }
 
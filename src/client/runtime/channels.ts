@@ -0,0 +1,149 @@
+import { encodeClientMessage } from "../protocol";
+import { jsonCodec, type Codec } from "../../shared/codec";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Desired subscription state for a channel
+ */
+type ChannelIntent = "join" | "leave";
+
+/**
+ * Tracks runtime channel subscriptions so they can be re-applied after reconnect,
+ * and the last history sequence number seen on each channel
+ */
+export class ChannelManager {
+  private intents = new Map<string, ChannelIntent>();
+  private cursors = new Map<string, number>();
+
+  constructor(private codec: Codec = jsonCodec, private logger: Logger = silentLogger) {}
+
+  /**
+   * Records that the client wants to be subscribed to a channel
+   */
+  join(channel: string): void {
+    this.intents.set(channel, "join");
+  }
+
+  /**
+   * Records that the client wants to be unsubscribed from a channel
+   */
+  leave(channel: string): void {
+    this.intents.set(channel, "leave");
+    this.cursors.delete(channel);
+  }
+
+  /**
+   * Forgets a leave once the server confirmed it, so reconnects do not send it again.
+   * A join requested since then is kept.
+   */
+  confirmLeave(channel: string): void {
+    if (this.intents.get(channel) === "leave") {
+      this.intents.delete(channel);
+    }
+  }
+
+  /**
+   * Records the history sequence number of a received channel message
+   * @returns false if the message was already seen (e.g. replayed and delivered live)
+   */
+  recordSeq(channel: string, seq: number): boolean {
+    const last = this.cursors.get(channel);
+    if (last !== undefined && seq <= last) {
+      this.logger.debug("[Verani:Client] Skipping already seen message, channel:", channel, "seq:", seq);
+      return false;
+    }
+    this.cursors.set(channel, seq);
+    return true;
+  }
+
+  /**
+   * Gets the last history sequence number seen on a channel
+   */
+  getCursor(channel: string): number | undefined {
+    return this.cursors.get(channel);
+  }
+
+  /**
+   * Gets all channels the client has joined at runtime
+   */
+  getChannels(): string[] {
+    const channels: string[] = [];
+    for (const [channel, intent] of this.intents) {
+      if (intent === "join") {
+        channels.push(channel);
+      }
+    }
+    return channels;
+  }
+
+  /**
+   * Sends a single join/leave frame over an open WebSocket.
+   * A join carries the channel's history cursor, so the server replays missed
+   * messages once the join has landed.
+   */
+  send(ws: WebSocket, intent: ChannelIntent, channel: string): void {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const cursor = intent === "join" ? this.cursors.get(channel) : undefined;
+    try {
+      ws.send(encodeClientMessage(
+        cursor === undefined ? { type: intent, channel } : { type: intent, channel, data: { cursor } },
+        this.codec
+      ));
+    } catch (error) {
+      this.logger.error("[Verani] Failed to send", intent, "frame:", error);
+    }
+  }
+
+  /**
+   * Re-applies every recorded join/leave after a (re)connection
+   */
+  resubscribe(ws: WebSocket): void {
+    if (this.intents.size === 0) {
+      return;
+    }
+
+    this.logger.debug("[Verani:Client] Re-applying channel subscriptions, count:", this.intents.size);
+    for (const [channel, intent] of this.intents) {
+      this.send(ws, intent, channel);
+    }
+  }
+
+  /**
+   * Asks the server for the channel history missed since the last seen messages.
+   * Channels joined at runtime are left out: their join frame carries the cursor.
+   */
+  requestReplay(ws: WebSocket): void {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const cursors: Record<string, number> = {};
+    for (const [channel, seq] of this.cursors) {
+      if (this.intents.get(channel) !== "join") {
+        cursors[channel] = seq;
+      }
+    }
+    const count = Object.keys(cursors).length;
+    if (count === 0) {
+      return;
+    }
+
+    this.logger.debug("[Verani:Client] Requesting replay for", count, "channels");
+    try {
+      ws.send(encodeClientMessage({ type: "replay", data: { cursors } }, this.codec));
+    } catch (error) {
+      this.logger.error("[Verani] Failed to send replay frame:", error);
+    }
+  }
+
+  /**
+   * Clears all recorded subscriptions and history cursors
+   */
+  clear(): void {
+    this.intents.clear();
+    this.cursors.clear();
+  }
+}
@@ -1,5 +1,7 @@
 import { DEFAULT_RECONNECTION_CONFIG } from "../connection";
 import type { ReconnectionConfig } from "../connection";
+import { jsonCodec, type Codec } from "../../shared/codec";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Client options for configuring the Verani client
@@ -15,6 +17,18 @@ export interface VeraniClientOptions {
   pingInterval?: number;
   /** Pong timeout in milliseconds (default: 5000) */
   pongTimeout?: number;
+  /** Default timeout for emitWithAck in milliseconds (default: 10000) */
+  ackTimeout?: number;
+  /** Wire format for frames, must match the server's codec (default: JSON) */
+  codec?: Codec;
+  /** Logger for connection and protocol events (default: silent) */
+  logger?: Logger;
+  /**
+   * Returns the URL to reconnect to after the server closed with a `retry-with-new-auth`
+   * close code (`CloseCodes.AUTH_EXPIRED` by default), typically with a fresh token.
+   * Without it such closes are not retried.
+   */
+  refreshUrl?: (url: string) => string | Promise<string>;
 }
 
 /**
@@ -26,6 +40,10 @@ export interface ResolvedClientOptions {
   connectionTimeout: number;
   pingInterval: number;
   pongTimeout: number;
+  ackTimeout: number;
+  codec: Codec;
+  logger: Logger;
+  refreshUrl?: (url: string) => string | Promise<string>;
 }
 
 /**
@@ -37,7 +55,8 @@ export function resolveClientOptions(options: VeraniClientOptions): ResolvedClie
     maxAttempts: options.reconnection?.maxAttempts ?? DEFAULT_RECONNECTION_CONFIG.maxAttempts,
     initialDelay: options.reconnection?.initialDelay ?? DEFAULT_RECONNECTION_CONFIG.initialDelay,
     maxDelay: options.reconnection?.maxDelay ?? DEFAULT_RECONNECTION_CONFIG.maxDelay,
-    backoffMultiplier: options.reconnection?.backoffMultiplier ?? DEFAULT_RECONNECTION_CONFIG.backoffMultiplier
+    backoffMultiplier: options.reconnection?.backoffMultiplier ?? DEFAULT_RECONNECTION_CONFIG.backoffMultiplier,
+    closeCodePolicies: options.reconnection?.closeCodePolicies
   };
 
   return {
@@ -45,7 +64,11 @@ export function resolveClientOptions(options: VeraniClientOptions): ResolvedClie
     maxQueueSize: options.maxQueueSize ?? 100,
     connectionTimeout: options.connectionTimeout ?? 10000,
     pingInterval: options.pingInterval ?? 5000,
-    pongTimeout: options.pongTimeout ?? 5000
+    pongTimeout: options.pongTimeout ?? 5000,
+    ackTimeout: options.ackTimeout ?? 10000,
+    codec: options.codec ?? jsonCodec,
+    logger: options.logger ?? silentLogger,
+    refreshUrl: options.refreshUrl
   };
 }
 
@@ -1,11 +1,17 @@
 import type { ConnectionManager } from "../connection";
 import type { EventEmitter } from "./eventEmitter";
 import type { KeepaliveManager } from "./keepalive";
+import type { ChannelManager } from "./channels";
+import type { AckManager } from "./acks";
+import type { HandshakeState } from "./handshake";
+import type { PresenceStore } from "./presence";
+import type { StateManager } from "./state";
 import { handleWebSocketOpen } from "./onWebSocketOpen";
 import { handleWebSocketMessage } from "./onWebSocketMessage";
 import { handleWebSocketClose } from "./onWebSocketClose";
 import { handleWebSocketError, handleConnectionError } from "./onWebSocketError";
 import type { ResolvedClientOptions } from "./configuration";
+import { withProtocolVersion, withResumeToken } from "../../shared/handshake";
 
 /**
  * Connection promise state
@@ -48,6 +54,11 @@ export class ConnectionHandler {
     private keepalive: KeepaliveManager,
     private eventEmitter: EventEmitter,
     private messageQueue: any,
+    private channels: ChannelManager,
+    private acks: AckManager,
+    private handshake: HandshakeState,
+    private presence: PresenceStore,
+    private states: StateManager,
     private connectionPromise: ConnectionPromiseState,
     private isConnectingRef: { value: boolean },
     private isConnectedFn: () => boolean,
@@ -62,17 +73,17 @@ export class ConnectionHandler {
   connect(): void {
     // Guard: Prevent concurrent connection attempts
     if (this.isConnectingRef.value) {
-      console.debug("[Verani:Client] Already connecting, ignoring duplicate connect call");
+      this.options.logger.debug("[Verani:Client] Already connecting, ignoring duplicate connect call");
       return;
     }
 
     // Guard: Don't reconnect if already connected
     if (this.isConnectedFn()) {
-      console.debug("[Verani:Client] Already connected, ignoring connect call");
+      this.options.logger.debug("[Verani:Client] Already connected, ignoring connect call");
       return;
     }
 
-    console.debug("[Verani:Client] Connecting to:", this.url);
+    this.options.logger.debug("[Verani:Client] Connecting to:", this.url);
 
     // Cleanup any existing WebSocket
     this.cleanupWebSocket();
@@ -84,12 +95,25 @@ export class ConnectionHandler {
 
       this.connectionManager.setState("connecting");
       this.eventEmitter.emitLifecycleEvent("connecting");
-      this.ws = new WebSocket(this.url);
+      // Announce our protocol version so the server can refuse an incompatible client,
+      // and present the previous session's resume token if we have one
+      let url = withProtocolVersion(this.url);
+      const resumeToken = this.handshake.getResumeToken();
+      if (resumeToken) {
+        url = withResumeToken(url, resumeToken);
+      }
+      this.ws = new WebSocket(url);
+
+      // Binary codecs need ArrayBuffer payloads instead of Blobs
+      if (this.options.codec.binary) {
+        // Workers types omit binaryType, browsers default it to "blob"
+        (this.ws as WebSocket & { binaryType: string }).binaryType = "arraybuffer";
+      }
 
       // Setup connection timeout
       this.connectionTimeoutState.value = setTimeout(() => {
         if (this.isConnectingRef.value && this.connectionId === currentConnectionId) {
-          console.debug("[Verani:Client] Connection timeout");
+          this.options.logger.debug("[Verani:Client] Connection timeout");
           this.ws?.close();
           this.handleConnectionErrorInternal(new Error("Connection timeout"));
         }
@@ -105,7 +129,7 @@ export class ConnectionHandler {
       this.ws.addEventListener("message", (ev: MessageEvent) => {
         // Only handle messages from current connection
         if (this.connectionId === currentConnectionId) {
-          handleWebSocketMessage(ev, this.keepalive, this.eventEmitter);
+          handleWebSocketMessage(ev, this.keepalive, this.eventEmitter, this.acks, this.channels, this.handshake, this.presence, this.states, this.options.codec, this.options.logger);
         }
       });
 
@@ -118,9 +142,12 @@ export class ConnectionHandler {
             this.connectionManager,
             this.connectionPromise,
             this.eventEmitter,
+            this.acks,
             () => this.connect(),
             this.isConnectingRef,
-            this.onCloseCallback
+            this.onCloseCallback,
+            this.options.logger,
+            this.options.refreshUrl ? () => this.refreshUrl() : undefined
           );
         }
       });
@@ -134,7 +161,8 @@ export class ConnectionHandler {
             this.eventEmitter,
             (error: Error) => this.handleConnectionErrorInternal(error),
             this.isConnectingRef,
-            this.onErrorCallback
+            this.onErrorCallback,
+            this.options.logger
           );
         }
       });
@@ -144,6 +172,14 @@ export class ConnectionHandler {
     }
   }
 
+  /**
+   * Replaces the connection URL with the one returned by the `refreshUrl` option
+   */
+  private async refreshUrl(): Promise<void> {
+    this.url = await this.options.refreshUrl!(this.url);
+    this.options.logger.debug("[Verani:Client] Connection URL refreshed");
+  }
+
   /**
    * Cleans up existing WebSocket connection and resources
    */
@@ -167,7 +203,7 @@ export class ConnectionHandler {
           // Use code 1000 (normal closure) to prevent triggering reconnection
           oldWs.close(1000, "Cleanup");
         } catch (error) {
-          console.debug("[Verani:Client] Error closing WebSocket during cleanup:", error);
+          this.options.logger.debug("[Verani:Client] Error closing WebSocket during cleanup:", error);
         }
       }
     }
@@ -196,10 +232,13 @@ export class ConnectionHandler {
       this.connectionManager,
       this.keepalive,
       this.messageQueue,
+      this.channels,
+      this.states,
       this.ws!,
       this.connectionPromise,
       this.eventEmitter,
-      this.onOpenCallback
+      this.onOpenCallback,
+      this.options.logger
     );
     this.isConnectingRef.value = false;
   }
@@ -215,7 +254,8 @@ export class ConnectionHandler {
       this.connectionManager,
       this.eventEmitter,
       () => this.connect(),
-      this.isConnectingRef
+      this.isConnectingRef,
+      this.options.logger
     );
   }
 }
@@ -1,9 +1,41 @@
+import type { EventMap, ErrorFrameData, WelcomeFrameData, SessionFrameData, PresenceFrameData } from "../../shared/types";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Events emitted by the client itself, available on every VeraniClient
+ * regardless of the server event map
+ */
+export interface ClientLifecycleEvents {
+  connecting: undefined;
+  open: undefined;
+  connected: undefined;
+  reconnecting: undefined;
+  close: CloseEvent;
+  disconnected: CloseEvent;
+  error: Event | Error;
+  serverError: ErrorFrameData;
+  handshake: WelcomeFrameData;
+  session: SessionFrameData;
+  presence: PresenceFrameData & { channel: string };
+  "channel.joined": { channel: string };
+  "channel.left": { channel: string };
+  "channel.denied": { channel: string };
+}
+
+/**
+ * All events a client can listen to: server events plus lifecycle events
+ */
+export type ClientListenerEvents<TServerEvents extends EventMap = EventMap> =
+  TServerEvents & ClientLifecycleEvents;
+
 /**
  * Manages event listeners and lifecycle events
  */
 export class EventEmitter {
   private listeners = new Map<string, Set<(data: any) => void>>();
 
+  constructor(private logger: Logger = silentLogger) {}
+
   /**
    * Registers an event listener
    */
@@ -44,12 +76,12 @@ export class EventEmitter {
   emitLifecycleEvent(event: string, data?: any): void {
     const set = this.listeners.get(event);
     if (set) {
-      console.debug("[Verani:Client] Emitting lifecycle event:", event, "to", set.size, "listeners");
+      this.logger.debug("[Verani:Client] Emitting lifecycle event:", event, "to", set.size, "listeners");
       for (const fn of set) {
         try {
           fn(data);
         } catch (error) {
-          console.error("[Verani] Error in lifecycle event handler:", error);
+          this.logger.error("[Verani] Error in lifecycle event handler:", error);
         }
       }
     }
@@ -61,17 +93,17 @@ export class EventEmitter {
   dispatch(eventType: string, eventData: any): void {
     const set = this.listeners.get(eventType);
     if (set) {
-      console.debug("[Verani:Client] Dispatching to", set.size, "listeners");
+      this.logger.debug("[Verani:Client] Dispatching to", set.size, "listeners");
 
       for (const fn of set) {
         try {
           fn(eventData);
         } catch (error) {
-          console.error("[Verani] Error in message handler:", error);
+          this.logger.error("[Verani] Error in message handler:", error);
         }
       }
     } else {
-      console.debug("[Verani:Client] No listeners for message type:", eventType);
+      this.logger.debug("[Verani:Client] No listeners for message type:", eventType);
     }
   }
 
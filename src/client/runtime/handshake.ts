@@ -0,0 +1,54 @@
+import type { WelcomeFrameData, SessionFrameData } from "../../shared/types";
+
+/**
+ * Holds what the server announced in its latest `welcome` and `session` frames
+ */
+export class HandshakeState {
+  private welcome?: WelcomeFrameData;
+  private session?: SessionFrameData;
+
+  /**
+   * Records the welcome frame of the current connection
+   */
+  setWelcome(data: WelcomeFrameData): void {
+    this.welcome = data;
+  }
+
+  /**
+   * Gets the latest welcome data, or undefined before the first handshake
+   * (or when the server predates version negotiation)
+   */
+  getWelcome(): WelcomeFrameData | undefined {
+    return this.welcome;
+  }
+
+  /**
+   * Records the session frame of the current connection
+   */
+  setSession(data: SessionFrameData): void {
+    this.session = data;
+  }
+
+  /**
+   * Gets the resume token of the latest session, presented when reconnecting
+   */
+  getResumeToken(): string | undefined {
+    return this.session?.resumeToken;
+  }
+
+  /**
+   * Forgets the resume token so the next connection starts a new session
+   */
+  clearResumeToken(): void {
+    if (this.session) {
+      delete this.session.resumeToken;
+    }
+  }
+
+  /**
+   * Gets the latest session data, kept across disconnects until the next session frame
+   */
+  getSession(): SessionFrameData | undefined {
+    return this.session;
+  }
+}
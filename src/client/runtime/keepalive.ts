@@ -1,6 +1,9 @@
 import { encodeClientMessage } from "../protocol";
 import type { ResolvedClientOptions } from "./configuration";
 import { onVisibilityChange } from "./browserVisibility";
+import type { KeepaliveSettings } from "../../shared/types";
+import { AUTO_RESPONSE_PING } from "../../shared/handshake";
+import { CloseCodes } from "../../shared/closeCodes";
 
 /**
  * Manages ping/pong keepalive for WebSocket connections
@@ -10,58 +13,64 @@ export class KeepaliveManager {
   private pongTimeout?: number;
   private lastPongReceived = 0;
   private visibilityCleanup?: (() => void) | null;
+  /** Ping interval in use: the configured one, or the server's if it is shorter */
+  private interval: number;
+  /** Whether pings are sent as the fixed text the server runtime answers by itself */
+  private autoResponse = false;
 
   constructor(
     private options: ResolvedClientOptions,
     private getWebSocket: () => WebSocket | undefined,
     private onTimeout: () => void
-  ) {}
+  ) {
+    this.interval = options.pingInterval;
+  }
 
   /**
    * Starts the ping interval to keep the connection alive
    */
   startPingInterval(): void {
     // Don't start if ping is disabled or already running
-    if (this.options.pingInterval === 0 || this.pingInterval !== undefined) {
+    if (this.interval === 0 || this.pingInterval !== undefined) {
       return;
     }
 
-    console.debug("[Verani:Client] Starting ping interval:", this.options.pingInterval, "ms");
+    this.options.logger.debug("[Verani:Client] Starting ping interval:", this.interval, "ms");
     this.lastPongReceived = Date.now();
 
     // Set up visibility change listener to resync ping when page becomes visible
     this.visibilityCleanup = onVisibilityChange((isVisible) => {
       if (isVisible) {
-        console.debug("[Verani:Client] Page became visible, resyncing ping interval");
+        this.options.logger.debug("[Verani:Client] Page became visible, resyncing ping interval");
         this.resyncPingInterval();
       }
-    });
+    }, this.options.logger);
 
     this.pingInterval = setInterval(() => {
       const ws = this.getWebSocket();
       if (!ws || ws.readyState !== WebSocket.OPEN) {
-        console.debug("[Verani:Client] WebSocket not open, stopping ping");
+        this.options.logger.debug("[Verani:Client] WebSocket not open, stopping ping");
         this.stopPingInterval();
         return;
       }
 
       // Check if we've received a pong recently
       const timeSinceLastPong = Date.now() - this.lastPongReceived;
-      if (timeSinceLastPong > this.options.pongTimeout + this.options.pingInterval) {
-        console.warn("[Verani:Client] Pong timeout exceeded, triggering reconnection");
+      if (timeSinceLastPong > this.options.pongTimeout + this.interval) {
+        this.options.logger.warn("[Verani:Client] Pong timeout exceeded, triggering reconnection");
         this.stopPingInterval();
-        ws.close(1006, "Pong timeout");
+        ws.close(CloseCodes.PONG_TIMEOUT, "Pong timeout");
         return;
       }
 
       // Send protocol-encoded ping message
       try {
-        console.debug("[Verani:Client] Sending protocol-encoded ping");
-        ws.send(encodeClientMessage({ type: "ping" }));
+        this.options.logger.debug("[Verani:Client] Sending protocol-encoded ping");
+        this.sendPing(ws);
       } catch (error) {
-        console.error("[Verani:Client] Failed to send ping:", error);
+        this.options.logger.error("[Verani:Client] Failed to send ping:", error);
       }
-    }, this.options.pingInterval) as unknown as number;
+    }, this.interval) as unknown as number;
   }
 
   /**
@@ -71,7 +80,7 @@ export class KeepaliveManager {
   resyncPingInterval(): void {
     const ws = this.getWebSocket();
     if (!ws || ws.readyState !== WebSocket.OPEN) {
-      console.debug("[Verani:Client] WebSocket not open, skipping ping resync");
+      this.options.logger.debug("[Verani:Client] WebSocket not open, skipping ping resync");
       return;
     }
 
@@ -83,41 +92,41 @@ export class KeepaliveManager {
 
     // Send immediate ping to check connection health
     try {
-      console.debug("[Verani:Client] Sending immediate ping after visibility change");
-      ws.send(encodeClientMessage({ type: "ping" }));
+      this.options.logger.debug("[Verani:Client] Sending immediate ping after visibility change");
+      this.sendPing(ws);
     } catch (error) {
-      console.error("[Verani:Client] Failed to send immediate ping:", error);
+      this.options.logger.error("[Verani:Client] Failed to send immediate ping:", error);
     }
 
     // Restart ping interval with fresh timing
-    console.debug("[Verani:Client] Restarting ping interval after resync");
+    this.options.logger.debug("[Verani:Client] Restarting ping interval after resync");
     this.lastPongReceived = Date.now();
 
     this.pingInterval = setInterval(() => {
       const ws = this.getWebSocket();
       if (!ws || ws.readyState !== WebSocket.OPEN) {
-        console.debug("[Verani:Client] WebSocket not open, stopping ping");
+        this.options.logger.debug("[Verani:Client] WebSocket not open, stopping ping");
         this.stopPingInterval();
         return;
       }
 
       // Check if we've received a pong recently
       const timeSinceLastPong = Date.now() - this.lastPongReceived;
-      if (timeSinceLastPong > this.options.pongTimeout + this.options.pingInterval) {
-        console.warn("[Verani:Client] Pong timeout exceeded, triggering reconnection");
+      if (timeSinceLastPong > this.options.pongTimeout + this.interval) {
+        this.options.logger.warn("[Verani:Client] Pong timeout exceeded, triggering reconnection");
         this.stopPingInterval();
-        ws.close(1006, "Pong timeout");
+        ws.close(CloseCodes.PONG_TIMEOUT, "Pong timeout");
         return;
       }
 
       // Send protocol-encoded ping message
       try {
-        console.debug("[Verani:Client] Sending protocol-encoded ping");
-        ws.send(encodeClientMessage({ type: "ping" }));
+        this.options.logger.debug("[Verani:Client] Sending protocol-encoded ping");
+        this.sendPing(ws);
       } catch (error) {
-        console.error("[Verani:Client] Failed to send ping:", error);
+        this.options.logger.error("[Verani:Client] Failed to send ping:", error);
       }
-    }, this.options.pingInterval) as unknown as number;
+    }, this.interval) as unknown as number;
   }
 
   /**
@@ -125,7 +134,7 @@ export class KeepaliveManager {
    */
   stopPingInterval(): void {
     if (this.pingInterval !== undefined) {
-      console.debug("[Verani:Client] Stopping ping interval");
+      this.options.logger.debug("[Verani:Client] Stopping ping interval");
       clearInterval(this.pingInterval);
       this.pingInterval = undefined;
     }
@@ -142,6 +151,34 @@ export class KeepaliveManager {
     }
   }
 
+  /**
+   * Adopts the keepalive settings announced in the server's `welcome` frame.
+   * The server's ping interval wins when it is shorter than ours or when our pings are disabled,
+   * so the server never closes the connection as idle. Without settings, the configured interval is restored.
+   */
+  negotiate(settings: KeepaliveSettings | undefined): void {
+    this.autoResponse = settings?.autoResponse === true;
+
+    const configured = this.options.pingInterval;
+    const offered = settings?.pingInterval ?? 0;
+    const interval = offered > 0 && (configured === 0 || offered < configured) ? offered : configured;
+    if (interval === this.interval) {
+      return;
+    }
+
+    this.options.logger.debug("[Verani:Client] Ping interval negotiated with server:", interval, "ms");
+    this.stopPingInterval();
+    this.interval = interval;
+    this.startPingInterval();
+  }
+
+  /**
+   * Sends a ping, as the fixed auto-response text when the server answers pings without waking up
+   */
+  private sendPing(ws: WebSocket): void {
+    ws.send(this.autoResponse ? AUTO_RESPONSE_PING : encodeClientMessage({ type: "ping" }, this.options.codec));
+  }
+
   /**
    * Records that a pong was received
    */
@@ -1,4 +1,6 @@
 import { encodeClientMessage } from "../protocol";
+import { jsonCodec, type Codec } from "../../shared/codec";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Message to be sent, queued when connection is not ready
@@ -6,6 +8,8 @@ import { encodeClientMessage } from "../protocol";
 export interface QueuedMessage {
   type: string;
   data?: any;
+  /** Correlation id for messages sent with emitWithAck */
+  id?: string;
 }
 
 /**
@@ -14,15 +18,15 @@ export interface QueuedMessage {
 export class MessageQueue {
   private queue: QueuedMessage[] = [];
 
-  constructor(private maxQueueSize: number) {}
+  constructor(private maxQueueSize: number, private codec: Codec = jsonCodec, private logger: Logger = silentLogger) {}
 
   /**
    * Queues a message for sending when connected
    */
   queueMessage(msg: QueuedMessage): void {
-    console.debug("[Verani:Client] Queuing message, type:", msg.type, "queue size:", this.queue.length);
+    this.logger.debug("[Verani:Client] Queuing message, type:", msg.type, "queue size:", this.queue.length);
     if (this.queue.length >= this.maxQueueSize) {
-      console.warn("[Verani] Message queue full, dropping oldest message");
+      this.logger.warn("[Verani] Message queue full, dropping oldest message");
       this.queue.shift();
     }
     this.queue.push(msg);
@@ -36,13 +40,13 @@ export class MessageQueue {
       return;
     }
 
-    console.debug("[Verani:Client] Flushing message queue, count:", this.queue.length);
+    this.logger.debug("[Verani:Client] Flushing message queue, count:", this.queue.length);
     while (this.queue.length > 0) {
       const msg = this.queue.shift()!;
       try {
-        ws.send(encodeClientMessage(msg));
+        ws.send(encodeClientMessage(msg, this.codec));
       } catch (error) {
-        console.error("[Verani] Failed to send queued message:", error);
+        this.logger.error("[Verani] Failed to send queued message:", error);
       }
     }
   }
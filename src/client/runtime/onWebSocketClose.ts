@@ -1,5 +1,9 @@
 import type { ConnectionManager } from "../connection";
 import type { EventEmitter } from "./eventEmitter";
+import type { AckManager } from "./acks";
+import { ProtocolVersionError } from "../errors";
+import { CloseCodes } from "../../shared/closeCodes";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Handles WebSocket closure
@@ -13,11 +17,14 @@ export function handleWebSocketClose(
     clear: () => void;
   },
   eventEmitter: EventEmitter,
+  acks: AckManager,
   connectFn: () => void,
   isConnectingRef?: { value: boolean },
-  onCloseCallback?: (event: CloseEvent) => void
+  onCloseCallback?: (event: CloseEvent) => void,
+  logger: Logger = silentLogger,
+  refreshUrl?: () => Promise<void>
 ): void {
-  console.debug("[Verani:Client] Connection closed, code:", event.code, "reason:", event.reason);
+  logger.debug("[Verani:Client] Connection closed, code:", event.code, "reason:", event.reason);
 
   // Clear connecting state and timeout
   if (isConnectingRef) {
@@ -27,25 +34,64 @@ export function handleWebSocketClose(
 
   connectionManager.setState("disconnected");
 
+  // The server refused our protocol version: retrying cannot succeed
+  const versionError = event.code === CloseCodes.PROTOCOL_VERSION_MISMATCH
+    ? new ProtocolVersionError(event.reason)
+    : undefined;
+
   // Reject connection promise if pending
   if (connectionPromise.reject) {
-    connectionPromise.reject(new Error(`Connection closed: ${event.reason || "Unknown reason"}`));
+    connectionPromise.reject(versionError ?? new Error(`Connection closed: ${event.reason || "Unknown reason"}`));
     connectionPromise.clear();
   }
 
+  // Requests sent on this connection can no longer be acknowledged
+  acks.rejectAll(new Error(`Connection closed before ack: ${event.reason || "Unknown reason"}`));
+
   // Emit lifecycle events
+  if (versionError) {
+    logger.error("[Verani] Protocol version rejected by server:", event.reason);
+    eventEmitter.emitLifecycleEvent("error", versionError);
+  }
   eventEmitter.emitLifecycleEvent("close", event);
   eventEmitter.emitLifecycleEvent("disconnected", event);
 
   // Call user callback (for backward compatibility)
   onCloseCallback?.(event);
 
-  // Attempt reconnection if not a clean close
-  if (event.code !== 1000 && event.code !== 1001) {
-    const reconnecting = connectionManager.scheduleReconnect(connectFn);
-    if (reconnecting) {
-      eventEmitter.emitLifecycleEvent("reconnecting");
+  // React to the close code: reconnect, reconnect with new credentials, or stay disconnected
+  const policy = versionError ? "stop" : connectionManager.getReconnectPolicy(event.code);
+  if (policy === "stop") {
+    logger.debug("[Verani:Client] Not reconnecting after close code:", event.code);
+    return;
+  }
+
+  let reconnect = connectFn;
+  if (policy === "retry-with-new-auth") {
+    if (!refreshUrl) {
+      logger.warn("[Verani] Credentials rejected and no refreshUrl option set, not reconnecting, code:", event.code);
+      return;
     }
+    reconnect = () => {
+      refreshUrl().then(
+        () => {
+          // disconnect() may have been called while the credentials were refreshed
+          if (connectionManager.getState() === "reconnecting") {
+            connectFn();
+          }
+        },
+        (error) => {
+          logger.error("[Verani] Failed to refresh the connection URL:", error);
+          connectionManager.setState("error");
+          eventEmitter.emitLifecycleEvent("error", error instanceof Error ? error : new Error(String(error)));
+        }
+      );
+    };
+  }
+
+  const reconnecting = connectionManager.scheduleReconnect(reconnect);
+  if (reconnecting) {
+    eventEmitter.emitLifecycleEvent("reconnecting");
   }
 }
 
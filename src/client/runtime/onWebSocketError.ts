@@ -1,5 +1,6 @@
 import type { ConnectionManager } from "../connection";
 import type { EventEmitter } from "./eventEmitter";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Handles WebSocket errors
@@ -10,10 +11,11 @@ export function handleWebSocketError(
   eventEmitter: EventEmitter,
   handleConnectionErrorFn: (error: Error) => void,
   isConnectingRef?: { value: boolean },
-  onErrorCallback?: (error: Event) => void
+  onErrorCallback?: (error: Event) => void,
+  logger: Logger = silentLogger
 ): void {
-  console.debug("[Verani:Client] WebSocket error event");
-  console.error("[Verani] WebSocket error:", error);
+  logger.debug("[Verani:Client] WebSocket error event");
+  logger.error("[Verani] WebSocket error:", error);
 
   // Clear connecting state and timeout
   if (isConnectingRef) {
@@ -44,9 +46,10 @@ export function handleConnectionError(
   connectionManager: ConnectionManager,
   eventEmitter: EventEmitter,
   connectFn: () => void,
-  isConnectingRef?: { value: boolean }
+  isConnectingRef?: { value: boolean },
+  logger: Logger = silentLogger
 ): void {
-  console.error("[Verani] Connection error:", error);
+  logger.error("[Verani] Connection error:", error);
 
   // Clear connecting state and timeout
   if (isConnectingRef) {
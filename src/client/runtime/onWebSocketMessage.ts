@@ -1,6 +1,16 @@
 import { decodeServerMessage } from "../protocol";
 import type { KeepaliveManager } from "./keepalive";
 import type { EventEmitter } from "./eventEmitter";
+import type { AckManager } from "./acks";
+import type { ChannelManager } from "./channels";
+import type { HandshakeState } from "./handshake";
+import type { PresenceStore } from "./presence";
+import type { StateManager } from "./state";
+import type { ErrorFrameData } from "../../shared/types";
+import { ServerError } from "../errors";
+import { WELCOME_FRAME_TYPE, SESSION_FRAME_TYPE, PRESENCE_FRAME_TYPE, STATE_FRAME_TYPE, AUTO_RESPONSE_PONG } from "../../shared/handshake";
+import type { Codec } from "../../shared/codec";
+import type { Logger } from "../../shared/logger";
 
 /**
  * Handles incoming WebSocket messages
@@ -8,24 +18,100 @@ import type { EventEmitter } from "./eventEmitter";
 export function handleWebSocketMessage(
   ev: MessageEvent,
   keepalive: KeepaliveManager,
-  eventEmitter: EventEmitter
+  eventEmitter: EventEmitter,
+  acks: AckManager,
+  channels: ChannelManager,
+  handshake: HandshakeState,
+  presence: PresenceStore,
+  states: StateManager,
+  codec: Codec,
+  logger: Logger
 ): void {
-  console.debug("[Verani:Client] Message received, data length:", typeof ev.data === "string" ? ev.data.length : "unknown");
+  logger.debug("[Verani:Client] Message received, data length:", typeof ev.data === "string" ? ev.data.length : "unknown");
 
-  const msg = decodeServerMessage(ev.data);
+  // Pongs sent by the server runtime are fixed text, whatever the codec
+  if (ev.data === AUTO_RESPONSE_PONG) {
+    logger.debug("[Verani:Client] Received automatic pong");
+    keepalive.recordPong();
+    return;
+  }
+
+  const msg = decodeServerMessage(ev.data, codec);
   if (!msg) {
-    console.debug("[Verani:Client] Failed to decode message");
+    logger.debug("[Verani:Client] Failed to decode message");
     return;
   }
-  console.debug("[Verani:Client] Decoded message:", { type: msg.type, channel: msg.channel });
+  logger.debug("[Verani:Client] Decoded message:", { type: msg.type, channel: msg.channel });
 
   // Handle protocol-encoded pong responses to keep connection alive
   if (msg.type === "pong") {
-    console.debug("[Verani:Client] Received protocol-encoded pong");
+    logger.debug("[Verani:Client] Received protocol-encoded pong");
     keepalive.recordPong();
     return;
   }
 
+  // Remember the server's version and capabilities, then let listeners know
+  if (msg.type === WELCOME_FRAME_TYPE) {
+    logger.debug("[Verani:Client] Received welcome, server version:", msg.data?.version);
+    handshake.setWelcome(msg.data);
+    keepalive.negotiate(msg.data?.keepalive);
+    // Surfaced as "handshake" so apps can keep emitting their own "welcome" events
+    eventEmitter.emitLifecycleEvent("handshake", msg.data);
+    return;
+  }
+
+  // Remember the identity the server assigned to this connection
+  if (msg.type === SESSION_FRAME_TYPE) {
+    logger.debug("[Verani:Client] Received session, clientId:", msg.data?.clientId);
+    handshake.setSession(msg.data);
+    eventEmitter.emitLifecycleEvent("session", msg.data);
+    return;
+  }
+
+  // Keep the local presence map in sync, then let listeners know what changed
+  if (msg.type === PRESENCE_FRAME_TYPE && msg.channel !== undefined && msg.data) {
+    logger.debug("[Verani:Client] Received presence", msg.data.action, "on channel:", msg.channel);
+    presence.apply(msg.channel, msg.data);
+    eventEmitter.emitLifecycleEvent("presence", { channel: msg.channel, ...msg.data });
+    return;
+  }
+
+  // Apply shared state snapshots and patches
+  if (msg.type === STATE_FRAME_TYPE && msg.data) {
+    logger.debug("[Verani:Client] Received state, room:", msg.data.room, "version:", msg.data.version);
+    states.handle(msg.data);
+    return;
+  }
+
+  // Resolve pending emitWithAck requests
+  if (msg.type === "ack" && msg.id !== undefined) {
+    logger.debug("[Verani:Client] Received ack, id:", msg.id);
+    acks.resolve(msg.id, msg.data);
+    return;
+  }
+
+  // Surface server errors, rejecting the pending emitWithAck request they answer (e.g. failed validation)
+  if (msg.type === "error") {
+    const data: ErrorFrameData = { ...msg.data, requestId: msg.data?.requestId ?? msg.id };
+    logger.debug("[Verani:Client] Received error, code:", data.code, "request id:", msg.id);
+    if (msg.id !== undefined) {
+      acks.reject(msg.id, new ServerError(data));
+    }
+    // Not dispatched as "error", which is the connection error lifecycle event
+    eventEmitter.emitLifecycleEvent("serverError", data);
+    return;
+  }
+
+  // A confirmed leave no longer needs to be re-applied after reconnecting
+  if (msg.type === "channel.left" && msg.channel !== undefined) {
+    channels.confirmLeave(msg.channel);
+  }
+
+  // Track channel history cursors and drop duplicates delivered by both replay and live broadcast
+  if (msg.seq !== undefined && msg.channel !== undefined && !channels.recordSeq(msg.channel, msg.seq)) {
+    return;
+  }
+
   // Extract the actual event type from wrapped broadcast messages
   let eventType = msg.type;
   let eventData = msg.data;
@@ -34,7 +120,7 @@ export function handleWebSocketMessage(
     // This is a wrapped broadcast message - extract the real event type
     eventType = msg.data.type;
     eventData = msg.data;
-    console.debug("[Verani:Client] Unwrapped event type:", eventType);
+    logger.debug("[Verani:Client] Unwrapped event type:", eventType);
   }
 
   eventEmitter.dispatch(eventType, eventData);
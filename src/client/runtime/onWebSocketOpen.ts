@@ -1,7 +1,10 @@
 import type { ConnectionManager } from "../connection";
 import type { KeepaliveManager } from "./keepalive";
 import type { MessageQueue } from "./messageQueue";
+import type { ChannelManager } from "./channels";
+import type { StateManager } from "./state";
 import type { EventEmitter } from "./eventEmitter";
+import { silentLogger, type Logger } from "../../shared/logger";
 
 /**
  * Handles successful WebSocket connection
@@ -11,6 +14,8 @@ export function handleWebSocketOpen(
   connectionManager: ConnectionManager,
   keepalive: KeepaliveManager,
   messageQueue: MessageQueue,
+  channels: ChannelManager,
+  states: StateManager,
   ws: WebSocket,
   connectionPromise: {
     resolve?: () => void;
@@ -18,9 +23,10 @@ export function handleWebSocketOpen(
     clear: () => void;
   },
   eventEmitter: EventEmitter,
-  onOpenCallback?: () => void
+  onOpenCallback?: () => void,
+  logger: Logger = silentLogger
 ): void {
-  console.debug("[Verani:Client] Connection opened");
+  logger.debug("[Verani:Client] Connection opened");
 
   // Clear connecting state and timeout
   connectionTimeout.clear();
@@ -31,6 +37,14 @@ export function handleWebSocketOpen(
   // Start ping interval to keep connection alive
   keepalive.startPingInterval();
 
+  // Re-apply runtime channel subscriptions before anything else is sent; joins carry
+  // their history cursor, and the replay frame covers the connection's initial channels
+  channels.resubscribe(ws);
+  channels.requestReplay(ws);
+
+  // Fetch fresh snapshots of the shared states the client follows
+  states.resubscribe(ws);
+
   // Flush queued messages
   messageQueue.flushMessageQueue(ws);
 
@@ -0,0 +1,69 @@
+import type { PresenceUser, PresenceFrameData } from "../../shared/types";
+
+/**
+ * Read-only view of the presence map, exposed as `client.presence`
+ */
+export interface ClientPresence {
+  /** Lists the users present in a channel */
+  list(channel: string): PresenceUser[];
+  /** Gets a user's presence in a channel */
+  get(channel: string, userId: string): PresenceUser | undefined;
+  /** Lists the channels the client has received presence for */
+  channels(): string[];
+}
+
+/**
+ * Local copy of the server's presence, kept in sync by `presence` frames
+ */
+export class PresenceStore implements ClientPresence {
+  private members = new Map<string, Map<string, PresenceUser>>();
+
+  /**
+   * Applies a sync or diff received on a channel
+   */
+  apply(channel: string, data: PresenceFrameData): void {
+    switch (data.action) {
+      case "sync": {
+        this.members.set(channel, new Map(data.users.map((user) => [user.userId, user])));
+        break;
+      }
+      case "join":
+      case "update": {
+        let members = this.members.get(channel);
+        if (!members) {
+          members = new Map();
+          this.members.set(channel, members);
+        }
+        members.set(data.user.userId, data.user);
+        break;
+      }
+      case "leave": {
+        this.members.get(channel)?.delete(data.userId);
+        break;
+      }
+    }
+  }
+
+  list(channel: string): PresenceUser[] {
+    return Array.from(this.members.get(channel)?.values() ?? []);
+  }
+
+  get(channel: string, userId: string): PresenceUser | undefined {
+    return this.members.get(channel)?.get(userId);
+  }
+
+  channels(): string[] {
+    return Array.from(this.members.keys());
+  }
+
+  /**
+   * Forgets a channel's members, or every channel's
+   */
+  clear(channel?: string): void {
+    if (channel === undefined) {
+      this.members.clear();
+    } else {
+      this.members.delete(channel);
+    }
+  }
+}
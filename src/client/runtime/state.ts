@@ -0,0 +1,166 @@
+import { encodeClientMessage } from "../protocol";
+import type { StateFrameData } from "../../shared/types";
+import { STATE_SUBSCRIBE_FRAME_TYPE, STATE_UNSUBSCRIBE_FRAME_TYPE } from "../../shared/handshake";
+import { applyJsonPatch, type JsonPatchOperation } from "../../shared/jsonPatch";
+import { jsonCodec, type Codec } from "../../shared/codec";
+import { silentLogger, type Logger } from "../../shared/logger";
+
+/**
+ * Listener of a live state: receives the new value, and the patch that produced it
+ * (undefined when a full snapshot was received)
+ */
+export type StateListener<T> = (value: T, patch: JsonPatchOperation[] | undefined) => void;
+
+/**
+ * A room's shared state, kept in sync with the server. Returned by `client.state(room)`.
+ */
+export interface LiveState<T = any> {
+  /** Current value, undefined until the first snapshot arrives */
+  readonly value: T | undefined;
+  /** Server version of `value` */
+  readonly version: number;
+  /** Whether a snapshot has been received */
+  readonly ready: boolean;
+  /**
+   * Calls `listener` on every change, and immediately if a snapshot was already received.
+   * Each change produces a new value; unchanged branches keep their identity.
+   * @returns A function removing the listener
+   */
+  subscribe(listener: StateListener<T>): () => void;
+  /**
+   * Stops syncing this state. The next `client.state(room)` call subscribes again.
+   */
+  close(): void;
+}
+
+/**
+ * Client-side copy of one room's state
+ */
+class SyncedState<T> implements LiveState<T> {
+  value: T | undefined = undefined;
+  version = 0;
+  ready = false;
+  private listeners = new Set<StateListener<T>>();
+
+  constructor(private onClose: () => void, private logger: Logger) {}
+
+  subscribe(listener: StateListener<T>): () => void {
+    this.listeners.add(listener);
+    if (this.ready) {
+      this.notify(listener, undefined);
+    }
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  close(): void {
+    this.listeners.clear();
+    this.onClose();
+  }
+
+  /**
+   * Applies a snapshot or patch
+   * @returns false if a patch does not follow the current version and a new snapshot is needed
+   */
+  apply(data: StateFrameData<T>): boolean {
+    if ("snapshot" in data) {
+      this.value = data.snapshot;
+    } else {
+      if (!this.ready || data.version !== this.version + 1) {
+        this.ready = false;
+        return false;
+      }
+      this.value = applyJsonPatch(this.value as T, data.patch);
+    }
+
+    this.version = data.version;
+    this.ready = true;
+
+    const patch = "patch" in data ? data.patch : undefined;
+    for (const listener of this.listeners) {
+      this.notify(listener, patch);
+    }
+    return true;
+  }
+
+  private notify(listener: StateListener<T>, patch: JsonPatchOperation[] | undefined): void {
+    try {
+      listener(this.value as T, patch);
+    } catch (error) {
+      this.logger.error("[Verani] Error in state listener:", error);
+    }
+  }
+}
+
+/**
+ * Tracks the room states the client subscribed to, so subscriptions can be
+ * re-sent after reconnect and incoming patches applied
+ */
+export class StateManager {
+  private states = new Map<string, SyncedState<any>>();
+
+  constructor(
+    private getWebSocket: () => WebSocket | undefined,
+    private codec: Codec = jsonCodec,
+    private logger: Logger = silentLogger
+  ) {}
+
+  /**
+   * Gets the live state of a room, subscribing to it on first use
+   */
+  get<T>(room: string): LiveState<T> {
+    let state = this.states.get(room);
+    if (!state) {
+      state = new SyncedState<T>(() => {
+        this.states.delete(room);
+        this.send(STATE_UNSUBSCRIBE_FRAME_TYPE, room);
+      }, this.logger);
+      this.states.set(room, state);
+      this.send(STATE_SUBSCRIBE_FRAME_TYPE, room);
+    }
+    return state;
+  }
+
+  /**
+   * Applies a `state` frame. Asks for a new snapshot when a patch was missed.
+   */
+  handle(data: StateFrameData): void {
+    const state = this.states.get(data.room);
+    if (!state) {
+      return;
+    }
+    if (!state.apply(data)) {
+      this.logger.debug("[Verani:Client] State version gap, requesting snapshot, room:", data.room);
+      this.send(STATE_SUBSCRIBE_FRAME_TYPE, data.room);
+    }
+  }
+
+  /**
+   * Subscribes again to every tracked state after a (re)connection
+   */
+  resubscribe(ws: WebSocket): void {
+    for (const room of this.states.keys()) {
+      this.send(STATE_SUBSCRIBE_FRAME_TYPE, room, ws);
+    }
+  }
+
+  /**
+   * Forgets all tracked states
+   */
+  clear(): void {
+    this.states.clear();
+  }
+
+  private send(type: string, room: string, ws = this.getWebSocket()): void {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    try {
+      ws.send(encodeClientMessage({ type, data: { room } }, this.codec));
+    } catch (error) {
+      this.logger.error("[Verani] Failed to send", type, "frame:", error);
+    }
+  }
+}
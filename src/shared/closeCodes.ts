@@ -0,0 +1,59 @@
+/**
+ * Application close codes (4000-4999) used by Verani.
+ * Browsers only let scripts close with 1000 or 3000-4999, so client-side closes use these too.
+ */
+export const CloseCodes = {
+  /** The client's protocol major version is not supported by the server */
+  PROTOCOL_VERSION_MISMATCH: 4001,
+  /** The server closed a connection it had not heard from for too long (see `RoomDefinition.sweep`) */
+  STALE_CONNECTION: 4002,
+  /** The client sent no frame within the room's idle timeout (see `RoomDefinition.heartbeat`) */
+  IDLE_TIMEOUT: 4003,
+  /** The client closed a connection whose server stopped answering pings */
+  PONG_TIMEOUT: 4004,
+  /** Setting up the connection failed on the server (`extractMeta` or `onConnect` threw) */
+  SERVER_ERROR: 4005,
+  /** The client exceeded the room's rate limit (see `RoomDefinition.rateLimit`) */
+  RATE_LIMITED: 4006,
+  /** The client's credentials expired or were revoked; reconnect with new ones */
+  AUTH_EXPIRED: 4007,
+  /** The connection was removed by the application, e.g. by a moderator */
+  KICKED: 4008,
+  /** The user is banned from the room */
+  BANNED: 4009,
+  /** The room has reached its capacity */
+  ROOM_FULL: 4010,
+  /** The server is restarting or being redeployed; reconnect shortly */
+  SERVER_RESTARTING: 4011
+} as const;
+
+/**
+ * A Verani application close code
+ */
+export type CloseCode = typeof CloseCodes[keyof typeof CloseCodes];
+
+/**
+ * Thrown from `extractMeta` or `onConnect` to close the new connection with a specific
+ * code and reason, instead of `CloseCodes.SERVER_ERROR`
+ * @example
+ * ```typescript
+ * extractMeta(req) {
+ *   const claims = verifyToken(req);
+ *   if (claims.exp * 1000 < Date.now()) {
+ *     throw new CloseError(CloseCodes.AUTH_EXPIRED, "Token expired");
+ *   }
+ *   return { userId: claims.sub, clientId: crypto.randomUUID(), channels: ["default"] };
+ * }
+ * ```
+ */
+export class CloseError extends Error {
+  constructor(
+    /** Close code sent to the client */
+    readonly code: number,
+    /** Close reason sent to the client, at most 123 bytes */
+    readonly reason: string
+  ) {
+    super(reason);
+    this.name = "CloseError";
+  }
+}
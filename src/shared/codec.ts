@@ -0,0 +1,58 @@
+import type { MessageFrame } from "./types";
+
+/**
+ * Raw data as received from a WebSocket
+ */
+export type RawFrame = string | ArrayBuffer | ArrayBufferView;
+
+/**
+ * Wire format used to serialize frames.
+ * Client and server must use the same codec.
+ */
+export interface Codec {
+  /** Codec name, used in logs */
+  readonly name: string;
+  /** Whether encoded frames are binary (the client then sets `binaryType` to "arraybuffer") */
+  readonly binary: boolean;
+  /**
+   * Serializes a frame
+   * @throws Error if the frame cannot be encoded
+   */
+  encode(frame: MessageFrame): string | Uint8Array;
+  /**
+   * Deserializes raw WebSocket data. The result is validated as a frame by the caller.
+   * @throws Error if the data is malformed
+   */
+  decode(raw: RawFrame): unknown;
+}
+
+/**
+ * Converts binary WebSocket data to a byte view without copying
+ */
+export function toBytes(raw: ArrayBuffer | ArrayBufferView): Uint8Array {
+  if (raw instanceof Uint8Array) {
+    return raw;
+  }
+  if (ArrayBuffer.isView(raw)) {
+    return new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength);
+  }
+  return new Uint8Array(raw);
+}
+
+const textDecoder = new TextDecoder();
+
+/**
+ * Default JSON codec. Text frames are sent as strings; binary frames
+ * containing UTF-8 JSON are also accepted.
+ */
+export const jsonCodec: Codec = {
+  name: "json",
+  binary: false,
+  encode(frame: MessageFrame): string {
+    return JSON.stringify(frame);
+  },
+  decode(raw: RawFrame): unknown {
+    const str = typeof raw === "string" ? raw : textDecoder.decode(toBytes(raw));
+    return JSON.parse(str);
+  }
+};
@@ -1,4 +1,5 @@
 import type { MessageFrame } from "./types";
+import { jsonCodec, type Codec } from "./codec";
 
 /**
  * Validates that a parsed object is a valid MessageFrame
@@ -8,30 +9,23 @@ function isValidFrame(obj: any): obj is MessageFrame {
     obj &&
     typeof obj === "object" &&
     typeof obj.type === "string" &&
-    (obj.channel === undefined || typeof obj.channel === "string")
+    (obj.channel === undefined || typeof obj.channel === "string") &&
+    (obj.id === undefined || typeof obj.id === "string")
   );
 }
 
 /**
  * Decodes a raw message into a MessageFrame
  * @param raw - Raw data from WebSocket (string, ArrayBuffer, etc)
+ * @param codec - Wire format (default: JSON)
  * @returns Decoded MessageFrame or null if invalid
  */
-export function decodeFrame(raw: any): MessageFrame | null {
+export function decodeFrame(raw: any, codec: Codec = jsonCodec): MessageFrame | null {
   try {
-    console.debug("[Verani:Decode] Decoding raw data");
-    const str = typeof raw === "string" ? raw : raw.toString();
-    const parsed = JSON.parse(str);
-
-    if (!isValidFrame(parsed)) {
-      console.warn("Invalid frame structure:", parsed);
-      return null;
-    }
-
-    console.debug("[Verani:Decode] Successfully decoded frame:", { type: parsed.type, hasChannel: !!parsed.channel });
-    return parsed;
-  } catch (error) {
-    console.warn("Failed to decode frame:", error);
+    const parsed: any = codec.decode(raw);
+    // Callers log frames that fail to decode with their own logger
+    return isValidFrame(parsed) ? parsed : null;
+  } catch {
     return null;
   }
 }
@@ -39,17 +33,19 @@ export function decodeFrame(raw: any): MessageFrame | null {
 /**
  * Decodes a client message
  * @param raw - Raw data from client WebSocket
+ * @param codec - Wire format (default: JSON)
  * @returns Decoded message or null if invalid
  */
-export function decodeClientMessage(raw: any): MessageFrame | null {
-  return decodeFrame(raw);
+export function decodeClientMessage(raw: any, codec: Codec = jsonCodec): MessageFrame | null {
+  return decodeFrame(raw, codec);
 }
 
 /**
  * Decodes a server message
  * @param raw - Raw data from server WebSocket
+ * @param codec - Wire format (default: JSON)
  * @returns Decoded message or null if invalid
  */
-export function decodeServerMessage(raw: any): MessageFrame | null {
-  return decodeFrame(raw);
+export function decodeServerMessage(raw: any, codec: Codec = jsonCodec): MessageFrame | null {
+  return decodeFrame(raw, codec);
 }
@@ -1,17 +1,18 @@
 import type { MessageFrame } from "./types";
+import { jsonCodec, type Codec } from "./codec";
 
 /**
- * Encodes a message frame to JSON string for transmission
+ * Encodes a message frame for transmission
  * @param frame - The message frame to encode
- * @returns JSON string representation of the frame
+ * @param codec - Wire format (default: JSON)
+ * @returns JSON string, or the codec's output (binary for MessagePack)
  * @throws Error if encoding fails
  */
-export function encodeFrame(frame: MessageFrame): string {
-  console.debug("[Verani:Encode] Encoding frame:", { type: frame.type, hasChannel: !!frame.channel, hasData: !!frame.data });
+export function encodeFrame(frame: MessageFrame): string;
+export function encodeFrame(frame: MessageFrame, codec: Codec): string | Uint8Array;
+export function encodeFrame(frame: MessageFrame, codec: Codec = jsonCodec): string | Uint8Array {
   try {
-    const encoded = JSON.stringify(frame);
-    console.debug("[Verani:Encode] Encoded successfully, length:", encoded.length);
-    return encoded;
+    return codec.encode(frame);
   } catch (error) {
     throw new Error(
       `Failed to encode frame: ${error instanceof Error ? error.message : "unknown error"}`
@@ -20,19 +21,25 @@ export function encodeFrame(frame: MessageFrame): string {
 }
 
 /**
- * Encodes a client message to JSON string
+ * Encodes a client message
  * @param message - The client message to encode
- * @returns JSON string representation
+ * @param codec - Wire format (default: JSON)
+ * @returns Encoded message
  */
-export function encodeClientMessage(message: MessageFrame): string {
-  return encodeFrame(message);
+export function encodeClientMessage(message: MessageFrame): string;
+export function encodeClientMessage(message: MessageFrame, codec: Codec): string | Uint8Array;
+export function encodeClientMessage(message: MessageFrame, codec: Codec = jsonCodec): string | Uint8Array {
+  return encodeFrame(message, codec);
 }
 
 /**
- * Encodes a server message to JSON string
+ * Encodes a server message
  * @param message - The server message to encode
- * @returns JSON string representation
+ * @param codec - Wire format (default: JSON)
+ * @returns Encoded message
  */
-export function encodeServerMessage(message: MessageFrame): string {
-  return encodeFrame(message);
+export function encodeServerMessage(message: MessageFrame): string;
+export function encodeServerMessage(message: MessageFrame, codec: Codec): string | Uint8Array;
+export function encodeServerMessage(message: MessageFrame, codec: Codec = jsonCodec): string | Uint8Array {
+  return encodeFrame(message, codec);
 }
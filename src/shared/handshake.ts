@@ -0,0 +1,90 @@
+import { PROTOCOL_VERSION } from "./types";
+
+/**
+ * Query parameter carrying the client's protocol version on the WebSocket upgrade
+ */
+export const PROTOCOL_VERSION_PARAM = "verani_version";
+
+/**
+ * Query parameter carrying a resume token when a client reconnects
+ */
+export const RESUME_TOKEN_PARAM = "verani_resume";
+
+/**
+ * Frame type of the server's handshake reply
+ */
+export const WELCOME_FRAME_TYPE = "welcome";
+
+/**
+ * Frame type carrying the connection's exposed meta, sent after `onConnect`
+ */
+export const SESSION_FRAME_TYPE = "session";
+
+/**
+ * Frame type of presence syncs and diffs, sent on the channel they describe
+ */
+export const PRESENCE_FRAME_TYPE = "presence";
+
+/**
+ * Frame type of shared state snapshots and patches
+ */
+export const STATE_FRAME_TYPE = "state";
+
+/**
+ * Frame types clients send to start and stop receiving a room's shared state
+ */
+export const STATE_SUBSCRIBE_FRAME_TYPE = "state.subscribe";
+export const STATE_UNSUBSCRIBE_FRAME_TYPE = "state.unsubscribe";
+
+/**
+ * Fixed ping/pong pair the Durable Object runtime answers without waking the actor,
+ * when the room enables `autoResponse`. Always sent as text, whatever the codec;
+ * with the JSON codec they are also regular `ping` and `pong` frames.
+ */
+export const AUTO_RESPONSE_PING = '{"type":"ping"}';
+export const AUTO_RESPONSE_PONG = '{"type":"pong"}';
+
+/**
+ * Extracts the major component of a semver-like version string
+ * @returns The major version, or NaN if the string is malformed
+ */
+export function getMajorVersion(version: string): number {
+  const major = version.split(".")[0];
+  return /^\d+$/.test(major) ? Number(major) : NaN;
+}
+
+/**
+ * Checks whether a peer's protocol version can talk to this one (same major version)
+ * @param version - Version announced by the peer
+ * @param current - Local protocol version
+ */
+export function isCompatibleProtocolVersion(version: string, current: string = PROTOCOL_VERSION): boolean {
+  const major = getMajorVersion(version);
+  return !Number.isNaN(major) && major === getMajorVersion(current);
+}
+
+/**
+ * Appends a query parameter to a URL that may already have a query string
+ */
+function appendParam(url: string, name: string, value: string): string {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}${name}=${encodeURIComponent(value)}`;
+}
+
+/**
+ * Appends the protocol version query parameter to a WebSocket URL
+ * @param url - WebSocket URL, with or without an existing query string
+ * @param version - Version to announce (default: PROTOCOL_VERSION)
+ */
+export function withProtocolVersion(url: string, version: string = PROTOCOL_VERSION): string {
+  return appendParam(url, PROTOCOL_VERSION_PARAM, version);
+}
+
+/**
+ * Appends a resume token query parameter to a WebSocket URL
+ * @param url - WebSocket URL, with or without an existing query string
+ * @param token - Token received in the previous connection's `session` frame
+ */
+export function withResumeToken(url: string, token: string): string {
+  return appendParam(url, RESUME_TOKEN_PARAM, token);
+}
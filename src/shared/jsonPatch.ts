@@ -0,0 +1,129 @@
+/**
+ * A JSON Patch (RFC 6902) operation. Only the operations produced by `diffJson` are supported.
+ */
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapeToken(token: string): string {
+  return token.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+function diffInto(before: unknown, after: unknown, path: string, patch: JsonPatchOperation[]): void {
+  if (before === after) {
+    return;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const common = Math.min(before.length, after.length);
+    for (let i = 0; i < common; i++) {
+      diffInto(before[i], after[i], `${path}/${i}`, patch);
+    }
+    for (let i = common; i < after.length; i++) {
+      patch.push({ op: "add", path: `${path}/${i}`, value: after[i] });
+    }
+    // Remove from the end so earlier indexes stay valid
+    for (let i = before.length - 1; i >= common; i--) {
+      patch.push({ op: "remove", path: `${path}/${i}` });
+    }
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    // Keys holding undefined are treated as absent, as in JSON
+    for (const key of Object.keys(before)) {
+      if (before[key] !== undefined && after[key] === undefined) {
+        patch.push({ op: "remove", path: `${path}/${escapeToken(key)}` });
+      }
+    }
+    for (const key of Object.keys(after)) {
+      if (after[key] === undefined) {
+        continue;
+      }
+      if (before[key] === undefined) {
+        patch.push({ op: "add", path: `${path}/${escapeToken(key)}`, value: after[key] });
+      } else {
+        diffInto(before[key], after[key], `${path}/${escapeToken(key)}`, patch);
+      }
+    }
+    return;
+  }
+
+  patch.push({ op: "replace", path, value: after });
+}
+
+/**
+ * Computes the JSON Patch turning one JSON value into another.
+ * Arrays are compared index by index; moves are expressed as replacements.
+ * @returns The operations, empty if both values are equal
+ */
+export function diffJson(before: unknown, after: unknown): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+  diffInto(before, after, "", patch);
+  return patch;
+}
+
+function applyAt(target: unknown, tokens: string[], operation: JsonPatchOperation): unknown {
+  const [token, ...rest] = tokens;
+
+  if (Array.isArray(target)) {
+    const copy = target.slice();
+    const index = token === "-" ? copy.length : Number(token);
+    if (!Number.isInteger(index) || index < 0 || index > copy.length) {
+      throw new Error(`Invalid JSON Patch path: ${operation.path}`);
+    }
+    if (rest.length > 0) {
+      copy[index] = applyAt(copy[index], rest, operation);
+    } else if (operation.op === "add") {
+      copy.splice(index, 0, operation.value);
+    } else if (operation.op === "remove") {
+      copy.splice(index, 1);
+    } else {
+      copy[index] = operation.value;
+    }
+    return copy;
+  }
+
+  // Assigning "__proto__" on the copy would replace its prototype instead of adding a key
+  if (!isPlainObject(target) || token === "__proto__") {
+    throw new Error(`Invalid JSON Patch path: ${operation.path}`);
+  }
+
+  const copy: Record<string, unknown> = { ...target };
+  if (rest.length > 0) {
+    copy[token] = applyAt(copy[token], rest, operation);
+  } else if (operation.op === "remove") {
+    delete copy[token];
+  } else {
+    copy[token] = operation.value;
+  }
+  return copy;
+}
+
+/**
+ * Applies a JSON Patch without mutating the document.
+ * Objects and arrays along each changed path are copied; untouched branches are shared,
+ * so reference equality tells which parts changed.
+ * @throws If an operation's path does not exist in the document, or goes through `__proto__`
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = document;
+  for (const operation of patch) {
+    if (operation.path === "") {
+      result = operation.op === "remove" ? undefined : operation.value;
+      continue;
+    }
+    const tokens = operation.path.slice(1).split("/").map(unescapeToken);
+    result = applyAt(result, tokens, operation);
+  }
+  return result as T;
+}
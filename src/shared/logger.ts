@@ -0,0 +1,91 @@
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Structured fields attached to log entries
+ */
+export interface LogFields {
+  /** Room name (or websocketPath) of the actor */
+  roomName?: string;
+  userId?: string;
+  clientId?: string;
+  /** Identifies one WebSocket; unlike clientId it changes when a session is resumed */
+  connectionId?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Logger used by the server runtime and the client.
+ * Pass one with `createActorHandler(room, { logger })` or `new VeraniClient(url, { logger })`.
+ * Nothing is logged by default.
+ */
+export interface Logger {
+  debug(message: string, ...args: unknown[]): void;
+  info(message: string, ...args: unknown[]): void;
+  warn(message: string, ...args: unknown[]): void;
+  error(message: string, ...args: unknown[]): void;
+  /**
+   * Returns a logger that adds `fields` to every entry
+   */
+  child(fields: LogFields): Logger;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+function noop(): void {}
+
+/**
+ * Logger that drops everything. The default on both server and client.
+ */
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+  child: () => silentLogger
+};
+
+/**
+ * Options of createConsoleLogger
+ */
+export interface ConsoleLoggerOptions {
+  /** Minimum level written (default: "info") */
+  level?: LogLevel;
+  /** Fields added to every entry */
+  fields?: LogFields;
+}
+
+/**
+ * Creates a logger writing to the console. Fields are appended as a last argument,
+ * which Workers Logs indexes as structured data.
+ * @example
+ * ```typescript
+ * export default createActorHandler(room, { logger: createConsoleLogger({ level: "warn" }) });
+ * ```
+ */
+export function createConsoleLogger(options: ConsoleLoggerOptions = {}): Logger {
+  const minimum = LEVEL_ORDER[options.level ?? "info"];
+  const fields = options.fields ?? {};
+  const hasFields = Object.keys(fields).length > 0;
+
+  const write = (level: LogLevel) => (message: string, ...args: unknown[]): void => {
+    if (LEVEL_ORDER[level] < minimum) {
+      return;
+    }
+    if (hasFields) {
+      console[level](message, ...args, fields);
+    } else {
+      console[level](message, ...args);
+    }
+  };
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (extra) => createConsoleLogger({ level: options.level, fields: { ...fields, ...extra } })
+  };
+}
@@ -0,0 +1,401 @@
+import type { MessageFrame } from "./types";
+import { toBytes, type Codec, type RawFrame } from "./codec";
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+/**
+ * Growable byte buffer used by the encoder
+ */
+class Writer {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  private ensure(size: number): void {
+    if (this.length + size <= this.bytes.length) {
+      return;
+    }
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const next = new Uint8Array(capacity);
+    next.set(this.bytes.subarray(0, this.length));
+    this.bytes = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  u8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  u16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.length, value);
+    this.length += 2;
+  }
+
+  u32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.length, value);
+    this.length += 4;
+  }
+
+  i8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.length, value);
+    this.length += 1;
+  }
+
+  i16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.length, value);
+    this.length += 2;
+  }
+
+  i32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.length, value);
+    this.length += 4;
+  }
+
+  u64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigUint64(this.length, value);
+    this.length += 8;
+  }
+
+  i64(value: bigint): void {
+    this.ensure(8);
+    this.view.setBigInt64(this.length, value);
+    this.length += 8;
+  }
+
+  f64(value: number): void {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  raw(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function writeInteger(w: Writer, value: number): void {
+  if (value >= 0) {
+    if (value < 0x80) {
+      w.u8(value);
+    } else if (value <= 0xff) {
+      w.u8(0xcc);
+      w.u8(value);
+    } else if (value <= 0xffff) {
+      w.u8(0xcd);
+      w.u16(value);
+    } else if (value <= 0xffffffff) {
+      w.u8(0xce);
+      w.u32(value);
+    } else {
+      w.u8(0xcf);
+      w.u64(BigInt(value));
+    }
+  } else {
+    if (value >= -0x20) {
+      w.i8(value);
+    } else if (value >= -0x80) {
+      w.u8(0xd0);
+      w.i8(value);
+    } else if (value >= -0x8000) {
+      w.u8(0xd1);
+      w.i16(value);
+    } else if (value >= -0x80000000) {
+      w.u8(0xd2);
+      w.i32(value);
+    } else {
+      w.u8(0xd3);
+      w.i64(BigInt(value));
+    }
+  }
+}
+
+function writeString(w: Writer, value: string): void {
+  const bytes = textEncoder.encode(value);
+  const size = bytes.length;
+  if (size < 0x20) {
+    w.u8(0xa0 | size);
+  } else if (size <= 0xff) {
+    w.u8(0xd9);
+    w.u8(size);
+  } else if (size <= 0xffff) {
+    w.u8(0xda);
+    w.u16(size);
+  } else {
+    w.u8(0xdb);
+    w.u32(size);
+  }
+  w.raw(bytes);
+}
+
+function writeBinary(w: Writer, bytes: Uint8Array): void {
+  const size = bytes.length;
+  if (size <= 0xff) {
+    w.u8(0xc4);
+    w.u8(size);
+  } else if (size <= 0xffff) {
+    w.u8(0xc5);
+    w.u16(size);
+  } else {
+    w.u8(0xc6);
+    w.u32(size);
+  }
+  w.raw(bytes);
+}
+
+function writeHeader(w: Writer, size: number, fix: number, marker16: number, marker32: number): void {
+  if (size < 16) {
+    w.u8(fix | size);
+  } else if (size <= 0xffff) {
+    w.u8(marker16);
+    w.u16(size);
+  } else {
+    w.u8(marker32);
+    w.u32(size);
+  }
+}
+
+function writeValue(w: Writer, value: unknown, depth: number): void {
+  if (depth > 100) {
+    throw new Error("Value nested too deeply");
+  }
+
+  if (value === null || value === undefined) {
+    w.u8(0xc0);
+    return;
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      w.u8(value ? 0xc3 : 0xc2);
+      return;
+    case "number":
+      if (Number.isSafeInteger(value)) {
+        writeInteger(w, value);
+      } else {
+        w.u8(0xcb);
+        w.f64(value);
+      }
+      return;
+    case "bigint":
+      if (value >= 0n) {
+        w.u8(0xcf);
+        w.u64(value);
+      } else {
+        w.u8(0xd3);
+        w.i64(value);
+      }
+      return;
+    case "string":
+      writeString(w, value);
+      return;
+    case "object":
+      break;
+    default:
+      // Functions and symbols are dropped, like JSON.stringify does inside arrays
+      w.u8(0xc0);
+      return;
+  }
+
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    writeBinary(w, toBytes(value));
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    writeHeader(w, value.length, 0x90, 0xdc, 0xdd);
+    for (const item of value) {
+      writeValue(w, item, depth + 1);
+    }
+    return;
+  }
+
+  // Honour toJSON (e.g. Date) so values serialize the same way as with the JSON codec
+  const toJSON = (value as { toJSON?: () => unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    writeValue(w, toJSON.call(value), depth + 1);
+    return;
+  }
+
+  // Skip undefined properties, matching JSON.stringify
+  const entries = Object.entries(value as Record<string, unknown>).filter(
+    ([, item]) => item !== undefined && typeof item !== "function" && typeof item !== "symbol"
+  );
+  writeHeader(w, entries.length, 0x80, 0xde, 0xdf);
+  for (const [key, item] of entries) {
+    writeString(w, key);
+    writeValue(w, item, depth + 1);
+  }
+}
+
+/**
+ * Sequential reader used by the decoder
+ */
+class Reader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private advance(size: number): number {
+    const start = this.offset;
+    if (start + size > this.bytes.length) {
+      throw new Error("Unexpected end of MessagePack data");
+    }
+    this.offset += size;
+    return start;
+  }
+
+  done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  u8(): number { return this.view.getUint8(this.advance(1)); }
+  u16(): number { return this.view.getUint16(this.advance(2)); }
+  u32(): number { return this.view.getUint32(this.advance(4)); }
+  i8(): number { return this.view.getInt8(this.advance(1)); }
+  i16(): number { return this.view.getInt16(this.advance(2)); }
+  i32(): number { return this.view.getInt32(this.advance(4)); }
+  u64(): number { return Number(this.view.getBigUint64(this.advance(8))); }
+  i64(): number { return Number(this.view.getBigInt64(this.advance(8))); }
+  f32(): number { return this.view.getFloat32(this.advance(4)); }
+  f64(): number { return this.view.getFloat64(this.advance(8)); }
+
+  str(size: number): string {
+    const start = this.advance(size);
+    return textDecoder.decode(this.bytes.subarray(start, start + size));
+  }
+
+  bin(size: number): Uint8Array {
+    const start = this.advance(size);
+    // Copy so the result does not keep the whole frame alive
+    return this.bytes.slice(start, start + size);
+  }
+}
+
+function readArray(r: Reader, size: number, depth: number): unknown[] {
+  const result = new Array(size);
+  for (let i = 0; i < size; i++) {
+    result[i] = readValue(r, depth + 1);
+  }
+  return result;
+}
+
+function readMap(r: Reader, size: number, depth: number): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (let i = 0; i < size; i++) {
+    const key = readValue(r, depth + 1);
+    const value = readValue(r, depth + 1);
+    if (key === "__proto__") {
+      continue;
+    }
+    result[String(key)] = value;
+  }
+  return result;
+}
+
+function readValue(r: Reader, depth: number): unknown {
+  if (depth > 100) {
+    throw new Error("MessagePack data nested too deeply");
+  }
+
+  const byte = r.u8();
+
+  if (byte < 0x80) return byte;
+  if (byte >= 0xe0) return byte - 0x100;
+  if ((byte & 0xe0) === 0xa0) return r.str(byte & 0x1f);
+  if ((byte & 0xf0) === 0x90) return readArray(r, byte & 0x0f, depth);
+  if ((byte & 0xf0) === 0x80) return readMap(r, byte & 0x0f, depth);
+
+  switch (byte) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return r.bin(r.u8());
+    case 0xc5: return r.bin(r.u16());
+    case 0xc6: return r.bin(r.u32());
+    case 0xca: return r.f32();
+    case 0xcb: return r.f64();
+    case 0xcc: return r.u8();
+    case 0xcd: return r.u16();
+    case 0xce: return r.u32();
+    case 0xcf: return r.u64();
+    case 0xd0: return r.i8();
+    case 0xd1: return r.i16();
+    case 0xd2: return r.i32();
+    case 0xd3: return r.i64();
+    case 0xd9: return r.str(r.u8());
+    case 0xda: return r.str(r.u16());
+    case 0xdb: return r.str(r.u32());
+    case 0xdc: return readArray(r, r.u16(), depth);
+    case 0xdd: return readArray(r, r.u32(), depth);
+    case 0xde: return readMap(r, r.u16(), depth);
+    case 0xdf: return readMap(r, r.u32(), depth);
+    default:
+      throw new Error(`Unsupported MessagePack type: 0x${byte.toString(16)}`);
+  }
+}
+
+/**
+ * Encodes a value as MessagePack.
+ * `Uint8Array`, `ArrayBuffer` and other typed arrays are written as `bin` and decode as `Uint8Array`.
+ * @param value - Value to encode
+ * @returns Encoded bytes
+ */
+export function encodeMsgpack(value: unknown): Uint8Array {
+  const w = new Writer();
+  writeValue(w, value, 0);
+  return w.result();
+}
+
+/**
+ * Decodes MessagePack bytes. Extension types are not supported.
+ * @param bytes - Encoded bytes
+ * @returns Decoded value
+ * @throws Error if the data is malformed
+ */
+export function decodeMsgpack(bytes: Uint8Array): unknown {
+  const r = new Reader(bytes);
+  const value = readValue(r, 0);
+  if (!r.done()) {
+    throw new Error("Trailing bytes after MessagePack value");
+  }
+  return value;
+}
+
+/**
+ * Built-in MessagePack codec. Frames are sent as binary WebSocket messages, so binary
+ * payloads (audio chunks, file slices) travel as raw bytes instead of base64 strings.
+ */
+export const msgpackCodec: Codec = {
+  name: "msgpack",
+  binary: true,
+  encode(frame: MessageFrame): Uint8Array {
+    return encodeMsgpack(frame);
+  },
+  decode(raw: RawFrame): unknown {
+    if (typeof raw === "string") {
+      throw new Error("Expected a binary frame");
+    }
+    return decodeMsgpack(toBytes(raw));
+  }
+};
@@ -1,3 +1,5 @@
+import type { JsonPatchOperation } from "./jsonPatch";
+
 /**
  * Core message types shared between client and server
  */
@@ -9,6 +11,10 @@ export interface MessageFrame {
   type: string;
   channel?: string;
   data?: any;
+  /** Correlation id used to match an `ack` reply to the request that caused it */
+  id?: string;
+  /** Per-channel sequence number of a broadcast kept in channel history */
+  seq?: number;
 }
 
 /**
@@ -18,6 +24,7 @@ export interface ClientMessage extends MessageFrame {
   type: string;
   channel?: string;
   data?: any;
+  id?: string;
 }
 
 /**
@@ -27,8 +34,101 @@ export interface ServerMessage extends MessageFrame {
   type: string;
   channel?: string;
   data?: any;
+  id?: string;
+}
+
+/**
+ * Payload of an `error` frame sent by the server
+ */
+export interface ErrorFrameData {
+  /** Machine-readable error code, e.g. `VALIDATION_FAILED` */
+  code: string;
+  /** Human-readable description */
+  message: string;
+  /** Event type of the frame that caused the error */
+  event?: string;
+  /** Correlation id of the frame that caused the error, present when it was sent with an ack */
+  requestId?: string;
+  /** Validation issues, present when `code` is `VALIDATION_FAILED` */
+  issues?: Array<{ message: string; path?: Array<string | number> }>;
+  /** Milliseconds until the request would be accepted, present when `code` is `RATE_LIMITED` */
+  retryAfterMs?: number;
+}
+
+/**
+ * Keepalive settings the server announces in the `welcome` frame when the room enforces an idle timeout
+ * or answers pings automatically
+ */
+export interface KeepaliveSettings {
+  /** Interval at which the client should ping, in milliseconds (present with a heartbeat) */
+  pingInterval?: number;
+  /** The server closes connections that sent no frame for this long, in milliseconds (present with a heartbeat) */
+  idleTimeout?: number;
+  /** Pings must be sent as `AUTO_RESPONSE_PING`; the server answers `AUTO_RESPONSE_PONG` without waking up */
+  autoResponse?: boolean;
+}
+
+/**
+ * Payload of the `welcome` frame the server sends right after accepting a connection
+ */
+export interface WelcomeFrameData {
+  /** Protocol version spoken by the server */
+  version: string;
+  /** Optional protocol features enabled for this room, e.g. `ack`, `history`, `inbox` */
+  capabilities: string[];
+  /** Client ID assigned to this connection */
+  clientId: string;
+  /** Present when the room has a `heartbeat` or `autoResponse`: how clients should ping */
+  keepalive?: KeepaliveSettings;
+}
+
+/**
+ * Payload of the `session` frame: the connection meta fields the room exposes.
+ * Contains `userId` and `clientId` unless the room's `exposeSession` omits them.
+ */
+export interface SessionFrameData {
+  userId?: string;
+  clientId?: string;
+  /** Token to present on reconnect to resume this session, set when the room enables `resume` */
+  resumeToken?: string;
+  /** True when this connection resumed a previous session (same clientId and channels) */
+  resumed?: boolean;
+  [field: string]: any;
+}
+
+/**
+ * A user present in a channel, aggregated over all of their connections
+ */
+export interface PresenceUser {
+  userId: string;
+  /** Number of connections (devices, tabs) the user has in the channel */
+  devices: number;
+  /** Public state of the user, e.g. `{ status: "away" }` */
+  state: Record<string, unknown>;
+  /** When the user's first connection joined the channel (ms since epoch) */
+  joinedAt: number;
+  /** Last time the user joined, left or changed state (ms since epoch) */
+  lastSeen: number;
 }
 
+/**
+ * Payload of a `presence` frame. `sync` carries the full member list of a channel,
+ * the other actions are diffs against it.
+ */
+export type PresenceFrameData =
+  | { action: "sync"; users: PresenceUser[] }
+  | { action: "join"; user: PresenceUser }
+  | { action: "update"; user: PresenceUser }
+  | { action: "leave"; userId: string; lastSeen: number };
+
+/**
+ * Payload of a `state` frame: the room's shared state as a full snapshot (sent when
+ * a client subscribes) or as a patch from the previous version
+ */
+export type StateFrameData<T = any> =
+  | { room: string; version: number; snapshot: T }
+  | { room: string; version: number; patch: JsonPatchOperation[] };
+
 /**
  * Connection metadata attached to each WebSocket
  */
@@ -38,13 +138,21 @@ export interface ConnectionMeta {
   channels: string[];
 }
 
+/**
+ * Map of event names to payload types.
+ * Declare one map for client-to-server events and one for server-to-client events
+ * and share them between `defineRoom` and `VeraniClient` to type-check both sides.
+ */
+export type EventMap = Record<string, any>;
+
 /**
  * Unified message type for both directions
  */
 export type VeraniMessage = ClientMessage | ServerMessage;
 
 /**
- * Protocol version for future compatibility
+ * Protocol version exchanged during the handshake.
+ * Peers with a different major version are rejected.
  */
-export const PROTOCOL_VERSION = "1.0.0";
+export const PROTOCOL_VERSION = "1.6.0";
 
@@ -13,7 +13,11 @@
 
 export { defineRoom } from "./actor/router";
 export { createActorHandler } from "./actor/actor-runtime";
-export { storeAttachment, restoreSessions } from "./actor/attachment";
+export type { ActorHandlerOptions } from "./actor/actor-runtime";
+export { storeAttachment, readAttachment, restoreSessions } from "./actor/attachment";
+export type { SessionAttachment } from "./actor/attachment";
+export { createOpenTelemetry } from "./actor/otel";
+export type { OpenTelemetryOptions, OtelTracer, OtelMeter, OtelSpan, OtelAttributes } from "./actor/otel";
 
 // Backend types
 export type {
@@ -24,8 +28,37 @@ export type {
   VeraniActor,
   RoomContext,
   MessageContext,
+  ExposedError,
   RoomDefinition,
-  ActorStub
+  ActorStub,
+  EventHandlerOptions,
+  Middleware,
+  RateLimitConfig,
+  HistoryConfig,
+  InboxConfig,
+  ResumeConfig,
+  PresenceConfig,
+  SweepConfig,
+  HeartbeatConfig,
+  RoomTelemetry,
+  TelemetryRecord,
+  ConnectTelemetry,
+  DisconnectTelemetry,
+  EventTelemetry,
+  BroadcastTelemetry,
+  RestoreTelemetry,
+  ActorPresence,
+  RoomState,
+  DisconnectHandler,
+  GracefulDisconnect,
+  SendToUserOptions,
+  ScheduledEmit,
+  ScheduleTarget,
+  BanOptions,
+  BanEntry,
+  TokenBucketConfig,
+  StandardSchemaV1,
+  InferSchemaOutput
 } from "./actor/types";
 
 export type {
@@ -39,7 +72,15 @@ export type {
 export type {
   ClientMessage,
   ServerMessage,
-  VeraniMessage
+  VeraniMessage,
+  EventMap,
+  ErrorFrameData,
+  WelcomeFrameData,
+  KeepaliveSettings,
+  SessionFrameData,
+  PresenceUser,
+  PresenceFrameData,
+  StateFrameData
 } from "./shared/types";
 
 export {
@@ -54,4 +95,15 @@ export {
   decodeServerMessage
 } from "./shared/decode";
 
+export { jsonCodec } from "./shared/codec";
+export type { Codec, RawFrame } from "./shared/codec";
+export { silentLogger, createConsoleLogger } from "./shared/logger";
+export type { Logger, LogLevel, LogFields, ConsoleLoggerOptions } from "./shared/logger";
+export { msgpackCodec, encodeMsgpack, decodeMsgpack } from "./shared/msgpack";
+export { diffJson, applyJsonPatch } from "./shared/jsonPatch";
+export type { JsonPatchOperation } from "./shared/jsonPatch";
+
 export { PROTOCOL_VERSION } from "./shared/types";
+export { PROTOCOL_VERSION_PARAM, AUTO_RESPONSE_PING, AUTO_RESPONSE_PONG, isCompatibleProtocolVersion } from "./shared/handshake";
+export { CloseCodes, CloseError } from "./shared/closeCodes";
+export type { CloseCode } from "./shared/closeCodes";
@@ -0,0 +1,147 @@
+import type { ConnectionMeta, MessageFrame, VeraniActor, VeraniAlarmPayload } from '../src/actor/types';
+import { jsonCodec } from '../src/shared/codec';
+import { silentLogger } from '../src/shared/logger';
+
+/**
+ * In-memory stand-in for the parts of Durable Object storage the runtime uses
+ */
+export class MemoryStorage {
+	readonly data = new Map<string, unknown>();
+
+	async get<T>(keys: string | string[]): Promise<any> {
+		if (Array.isArray(keys)) {
+			const result = new Map<string, T>();
+			for (const key of keys) {
+				if (this.data.has(key)) {
+					result.set(key, structuredClone(this.data.get(key)) as T);
+				}
+			}
+			return result;
+		}
+		return structuredClone(this.data.get(keys)) as T | undefined;
+	}
+
+	async put(keyOrEntries: string | Record<string, unknown>, value?: unknown): Promise<void> {
+		const entries = typeof keyOrEntries === 'string' ? { [keyOrEntries]: value } : keyOrEntries;
+		for (const [key, entry] of Object.entries(entries)) {
+			this.data.set(key, structuredClone(entry));
+		}
+	}
+
+	async delete(keys: string | string[]): Promise<any> {
+		if (Array.isArray(keys)) {
+			return keys.filter((key) => this.data.delete(key)).length;
+		}
+		return this.data.delete(keys);
+	}
+
+	async list<T>(options: { prefix?: string; start?: string; end?: string; limit?: number } = {}): Promise<Map<string, T>> {
+		const result = new Map<string, T>();
+		for (const key of Array.from(this.data.keys()).sort()) {
+			if (options.limit !== undefined && result.size >= options.limit) {
+				break;
+			}
+			if (options.prefix !== undefined && !key.startsWith(options.prefix)) continue;
+			if (options.start !== undefined && key < options.start) continue;
+			if (options.end !== undefined && key >= options.end) continue;
+			result.set(key, structuredClone(this.data.get(key)) as T);
+		}
+		return result;
+	}
+
+	async getAlarm(): Promise<number | null> {
+		return null;
+	}
+
+	async setAlarm(): Promise<void> {}
+
+	async deleteAlarm(): Promise<void> {}
+}
+
+/**
+ * WebSocket stand-in that records the frames sent to it
+ */
+export class TestSocket {
+	readyState: number = WebSocket.OPEN;
+	readonly sent: MessageFrame[] = [];
+	closed?: { code?: number; reason?: string };
+	private attachment: unknown;
+
+	send(raw: string): void {
+		this.sent.push(jsonCodec.decode(raw) as MessageFrame);
+	}
+
+	close(code?: number, reason?: string): void {
+		this.readyState = WebSocket.CLOSED;
+		this.closed = { code, reason };
+	}
+
+	serializeAttachment(value: unknown): void {
+		this.attachment = structuredClone(value);
+	}
+
+	deserializeAttachment(): unknown {
+		return structuredClone(this.attachment);
+	}
+
+	/** Frames of one type sent to this socket */
+	frames(type: string): MessageFrame[] {
+		return this.sent.filter((frame) => frame.type === type);
+	}
+}
+
+export type TestActor = VeraniActor<ConnectionMeta, unknown> & {
+	storage: MemoryStorage;
+	/** Runtime timers scheduled through `alarms.schedule()`, in order */
+	scheduled: Array<{ id: string; at: number; payload: VeraniAlarmPayload }>;
+};
+
+/**
+ * Creates the actor fields the runtime functions read: sessions, codec, logger, storage and alarms
+ */
+export function createTestActor(): TestActor {
+	const storage = new MemoryStorage();
+	const scheduled: TestActor['scheduled'] = [];
+	return {
+		sessions: new Map(),
+		codec: jsonCodec,
+		logger: silentLogger,
+		storage,
+		scheduled,
+		getStorage: () => storage,
+		alarms: {
+			schedule: async (at: Date, _callback: string, payload: VeraniAlarmPayload) => {
+				const id = crypto.randomUUID();
+				scheduled.push({ id, at: at.getTime(), payload });
+				return { id };
+			},
+			cancelSchedule: async (id: string) => {
+				const index = scheduled.findIndex((entry) => entry.id === id);
+				if (index !== -1) {
+					scheduled.splice(index, 1);
+				}
+			}
+		}
+	} as unknown as TestActor;
+}
+
+/**
+ * Adds an open session to an actor, as onWebSocketConnect would
+ */
+export function addSession(
+	actor: TestActor,
+	meta: Partial<ConnectionMeta> = {}
+): { ws: WebSocket; socket: TestSocket; meta: ConnectionMeta } {
+	const socket = new TestSocket();
+	const ws = socket as unknown as WebSocket;
+	const fullMeta: ConnectionMeta = { userId: 'alice', clientId: crypto.randomUUID(), channels: ['default'], ...meta };
+	actor.sessions.set(ws, { ws, meta: fullMeta });
+	return { ws, socket, meta: fullMeta };
+}
+
+/**
+ * Encodes a client frame as it arrives on the socket
+ */
+export function rawFrame(frame: MessageFrame): string {
+	return JSON.stringify(frame);
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { defineRoom } from '../src/actor/router';
+import { onWebSocketMessage } from '../src/actor/runtime/onWebSocketMessage';
+import { initChannelHistory, getChannelHistory } from '../src/actor/runtime/history';
+import { ChannelManager } from '../src/client/runtime/channels';
+import { createTestActor, addSession, rawFrame, TestSocket, type TestActor } from './helpers';
+
+async function createHistoryActor(): Promise<TestActor> {
+	const actor = createTestActor();
+	await initChannelHistory(actor, actor.getStorage(), { channels: '*' });
+	const history = getChannelHistory(actor)!;
+	for (const text of ['one', 'two', 'three']) {
+		history.record('room:42', { type: 'chat', text });
+	}
+	return actor;
+}
+
+describe('channel history', () => {
+	it('replays a runtime join after an async authorizeJoin allowed it', async () => {
+		const actor = await createHistoryActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({
+			websocketPath: '/ws',
+			history: { channels: '*' },
+			authorizeJoin: async () => {
+				await new Promise((resolve) => setTimeout(resolve, 10));
+				return true;
+			}
+		});
+
+		// The actor does not await message handling, so frames sent back to back overlap
+		await Promise.all([
+			onWebSocketMessage(actor, room, ws, rawFrame({ type: 'join', channel: 'room:42', data: { cursor: 1 } })),
+			onWebSocketMessage(actor, room, ws, rawFrame({ type: 'replay', data: { cursors: { default: 0 } } }))
+		]);
+
+		expect(socket.sent).toEqual([
+			{ type: 'channel.joined', channel: 'room:42', data: { channel: 'room:42' } },
+			{ type: 'event', channel: 'room:42', data: { type: 'chat', text: 'two' }, seq: 2 },
+			{ type: 'event', channel: 'room:42', data: { type: 'chat', text: 'three' }, seq: 3 }
+		]);
+	});
+
+	it('does not replay a denied join', async () => {
+		const actor = await createHistoryActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({ websocketPath: '/ws', history: { channels: '*' }, authorizeJoin: async () => false });
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'join', channel: 'room:42', data: { cursor: 0 } }));
+
+		expect(socket.sent).toEqual([{ type: 'channel.denied', channel: 'room:42', data: { channel: 'room:42' } }]);
+	});
+
+	it('replays initial channels from the replay frame', async () => {
+		const actor = await createHistoryActor();
+		const { ws, socket } = addSession(actor, { channels: ['room:42'] });
+		const room = defineRoom({ websocketPath: '/ws', history: { channels: '*' } });
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'replay', data: { cursors: { 'room:42': 2 } } }));
+
+		expect(socket.sent).toEqual([{ type: 'event', channel: 'room:42', data: { type: 'chat', text: 'three' }, seq: 3 }]);
+	});
+
+	it('sends the cursor of a runtime channel in its join frame on reconnect', () => {
+		const channels = new ChannelManager();
+		channels.join('room:42');
+		channels.recordSeq('room:42', 7);
+		channels.recordSeq('default', 3);
+
+		const socket = new TestSocket();
+		const ws = socket as unknown as WebSocket;
+		channels.resubscribe(ws);
+		channels.requestReplay(ws);
+
+		expect(socket.sent).toEqual([
+			{ type: 'join', channel: 'room:42', data: { cursor: 7 } },
+			{ type: 'replay', data: { cursors: { default: 3 } } }
+		]);
+	});
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { defineRoom } from '../src/actor/router';
+import { onWebSocketConnect } from '../src/actor/runtime/onWebSocketConnect';
+import { queueInboxFrame } from '../src/actor/runtime/inbox';
+import type { ConnectionMeta } from '../src/actor/types';
+import { createTestActor, TestSocket, type TestActor } from './helpers';
+
+function inboxKeys(actor: TestActor): string[] {
+	return Array.from(actor.storage.data.keys()).filter((key) => key.startsWith('verani:inbox:'));
+}
+
+async function connect(actor: TestActor, meta: ConnectionMeta): Promise<TestSocket> {
+	const socket = new TestSocket();
+	const room = defineRoom({ websocketPath: '/ws', inbox: {}, extractMeta: () => meta });
+	await onWebSocketConnect(actor, room, socket as unknown as WebSocket, new Request('https://example.com/ws'));
+	return socket;
+}
+
+describe('offline inbox', () => {
+	it('delivers queued frames in order after the handshake when the user reconnects', async () => {
+		const actor = createTestActor();
+		queueInboxFrame(actor.getStorage(), {}, 'alice', { type: 'event', data: { type: 'first' } }, undefined);
+		queueInboxFrame(actor.getStorage(), {}, 'alice', { type: 'event', channel: 'default', data: { text: 'second' } }, 'default');
+		queueInboxFrame(actor.getStorage(), {}, 'bob', { type: 'event', data: { type: 'for bob' } }, undefined);
+
+		const socket = await connect(actor, { userId: 'alice', clientId: 'client-1', channels: ['default'] });
+
+		expect(socket.sent.map((frame) => frame.type)).toEqual(['welcome', 'session', 'event', 'event']);
+		expect(socket.sent.slice(2)).toEqual([
+			{ type: 'event', data: { type: 'first' } },
+			{ type: 'event', channel: 'default', data: { text: 'second' } }
+		]);
+		expect(inboxKeys(actor)).toHaveLength(1);
+		expect(inboxKeys(actor)[0]).toMatch(/^verani:inbox:bob:/);
+	});
+
+	it('keeps channel frames for a later connection subscribed to the channel', async () => {
+		const actor = createTestActor();
+		queueInboxFrame(actor.getStorage(), {}, 'alice', { type: 'event', channel: 'room:42', data: { text: 'hi' } }, 'room:42');
+
+		const first = await connect(actor, { userId: 'alice', clientId: 'client-1', channels: ['default'] });
+		expect(first.frames('event')).toEqual([]);
+		expect(inboxKeys(actor)).toHaveLength(1);
+
+		const second = await connect(actor, { userId: 'alice', clientId: 'client-2', channels: ['room:42'] });
+		expect(second.frames('event')).toEqual([{ type: 'event', channel: 'room:42', data: { text: 'hi' } }]);
+		expect(inboxKeys(actor)).toEqual([]);
+	});
+
+	it('drops expired frames instead of delivering them', async () => {
+		const actor = createTestActor();
+		queueInboxFrame(actor.getStorage(), { ttlMs: -1 }, 'alice', { type: 'event', data: { type: 'stale' } }, undefined);
+
+		const socket = await connect(actor, { userId: 'alice', clientId: 'client-1', channels: ['default'] });
+
+		expect(socket.frames('event')).toEqual([]);
+		expect(inboxKeys(actor)).toEqual([]);
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { diffJson, applyJsonPatch, type JsonPatchOperation } from '../src/shared/jsonPatch';
+
+function expectRoundTrip(before: unknown, after: unknown): JsonPatchOperation[] {
+	const patch = diffJson(before, after);
+	expect(applyJsonPatch(before, patch)).toEqual(after);
+	return patch;
+}
+
+describe('JSON Patch', () => {
+	describe('diffJson + applyJsonPatch', () => {
+		it('produces no operations for equal values', () => {
+			expect(expectRoundTrip({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([]);
+		});
+
+		it('grows arrays', () => {
+			const patch = expectRoundTrip({ list: [1, 2] }, { list: [1, 2, 3, 4] });
+			expect(patch).toEqual([
+				{ op: 'add', path: '/list/2', value: 3 },
+				{ op: 'add', path: '/list/3', value: 4 }
+			]);
+		});
+
+		it('shrinks arrays from the end', () => {
+			const patch = expectRoundTrip({ list: [1, 2, 3, 4] }, { list: [1, 5] });
+			expect(patch).toEqual([
+				{ op: 'replace', path: '/list/1', value: 5 },
+				{ op: 'remove', path: '/list/3' },
+				{ op: 'remove', path: '/list/2' }
+			]);
+		});
+
+		it('empties and fills arrays', () => {
+			expectRoundTrip([1, 2, 3], []);
+			expectRoundTrip([], [1, 2, 3]);
+		});
+
+		it('escapes ~ and / in keys', () => {
+			const before = { 'a/b': 1, 'c~d': { '~/': 2 } };
+			const after = { 'a/b': 3, 'c~d': { '~/': 4 }, '~1': 5 };
+			const patch = expectRoundTrip(before, after);
+			expect(patch.map((operation) => operation.path)).toEqual(['/a~1b', '/c~0d/~0~1', '/~01']);
+		});
+
+		it('treats undefined properties as absent', () => {
+			expect(expectRoundTrip({ a: 1, b: undefined }, { a: 1 })).toEqual([]);
+			expect(expectRoundTrip({ a: 1 }, { a: 1, b: undefined })).toEqual([]);
+			expect(expectRoundTrip({ a: 1, b: 2 }, { a: 1, b: undefined })).toEqual([{ op: 'remove', path: '/b' }]);
+			expectRoundTrip({ a: undefined }, { a: 2 });
+		});
+
+		it('replaces the root when the type changes', () => {
+			expect(expectRoundTrip({ a: 1 }, [1])).toEqual([{ op: 'replace', path: '', value: [1] }]);
+			expectRoundTrip([1], 'text');
+			expectRoundTrip(null, { a: 1 });
+			expectRoundTrip(1, 2);
+		});
+
+		it('replaces nested values whose type changes', () => {
+			expectRoundTrip({ a: { b: [1] } }, { a: { b: { c: 1 } } });
+			expectRoundTrip({ a: [{ b: 1 }] }, { a: [[1]] });
+		});
+	});
+
+	describe('applyJsonPatch', () => {
+		it('does not mutate the document and shares untouched branches', () => {
+			const document = { a: { b: 1 }, c: { d: 2 } };
+			const result = applyJsonPatch(document, [{ op: 'replace', path: '/a/b', value: 3 }]);
+			expect(document).toEqual({ a: { b: 1 }, c: { d: 2 } });
+			expect(result).toEqual({ a: { b: 3 }, c: { d: 2 } });
+			expect(result.c).toBe(document.c);
+			expect(result.a).not.toBe(document.a);
+		});
+
+		it('appends with the - index', () => {
+			expect(applyJsonPatch([1], [{ op: 'add', path: '/-', value: 2 }])).toEqual([1, 2]);
+		});
+
+		it('removes the root', () => {
+			expect(applyJsonPatch({ a: 1 }, [{ op: 'remove', path: '' }])).toBeUndefined();
+		});
+
+		it('rejects paths that do not exist', () => {
+			expect(() => applyJsonPatch({ a: 1 }, [{ op: 'add', path: '/a/b', value: 1 }])).toThrow('Invalid JSON Patch path: /a/b');
+			expect(() => applyJsonPatch([1], [{ op: 'add', path: '/5', value: 1 }])).toThrow('Invalid JSON Patch path: /5');
+			expect(() => applyJsonPatch([1], [{ op: 'add', path: '/x', value: 1 }])).toThrow('Invalid JSON Patch path: /x');
+		});
+
+		it('rejects __proto__ tokens', () => {
+			const document: Record<string, unknown> = { a: {} };
+			expect(() => applyJsonPatch(document, [{ op: 'add', path: '/__proto__', value: { polluted: true } }])).toThrow(
+				'Invalid JSON Patch path: /__proto__'
+			);
+			expect(() => applyJsonPatch(document, [{ op: 'add', path: '/a/__proto__/polluted', value: true }])).toThrow(
+				'Invalid JSON Patch path: /a/__proto__/polluted'
+			);
+			expect(Object.getPrototypeOf(document)).toBe(Object.prototype);
+			expect(({} as { polluted?: boolean }).polluted).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { defineRoom } from '../src/actor/router';
+import { onWebSocketMessage } from '../src/actor/runtime/onWebSocketMessage';
+import { createTestActor, addSession, rawFrame } from './helpers';
+
+describe('room middleware', () => {
+	it('runs middleware in registration order around the handler', async () => {
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const calls: string[] = [];
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.use(async (_ctx, next) => {
+			calls.push('first:before');
+			await next();
+			calls.push('first:after');
+		});
+		room.use(async (_ctx, next) => {
+			calls.push('second:before');
+			await next();
+			calls.push('second:after');
+		});
+		room.on('chat', () => {
+			calls.push('handler');
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: {} }));
+		expect(calls).toEqual(['first:before', 'second:before', 'handler', 'second:after', 'first:after']);
+	});
+
+	it('stops the event when a middleware does not call next', async () => {
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const calls: string[] = [];
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.use(async () => {
+			calls.push('blocker');
+		});
+		room.use(async (_ctx, next) => {
+			calls.push('second');
+			await next();
+		});
+		room.on('chat', () => {
+			calls.push('handler');
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: {} }));
+		expect(calls).toEqual(['blocker']);
+	});
+
+	it('answers an ack request stopped by middleware with an error', async () => {
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.use(async () => {});
+		room.on('chat', () => 'handled');
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', id: 'req-1', data: {} }));
+		expect(socket.sent).toHaveLength(1);
+		expect(socket.sent[0]).toMatchObject({ type: 'error', id: 'req-1', data: { code: 'UNHANDLED_EVENT' } });
+	});
+
+	it('sends the rejection of a middleware instead of the ack', async () => {
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.use(async (ctx) => {
+			ctx.reject('FORBIDDEN', 'Not allowed');
+		});
+		room.on('chat', () => 'handled');
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', id: 'req-1', data: {} }));
+		expect(socket.sent).toHaveLength(1);
+		expect(socket.sent[0]).toMatchObject({ type: 'error', id: 'req-1', data: { code: 'FORBIDDEN', message: 'Not allowed' } });
+	});
+
+	it('reports a middleware calling next twice to onError', async () => {
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const errors: string[] = [];
+		let handled = 0;
+		const room = defineRoom({
+			websocketPath: '/ws',
+			onError: (error) => {
+				errors.push(error.message);
+			}
+		});
+		room.use(async (_ctx, next) => {
+			await next();
+			await next();
+		});
+		room.on('chat', () => {
+			handled++;
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: {} }));
+		expect(handled).toBe(1);
+		expect(errors).toEqual(['next() called multiple times in Verani middleware']);
+	});
+});
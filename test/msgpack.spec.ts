@@ -0,0 +1,210 @@
+import { describe, it, expect } from 'vitest';
+import { encodeMsgpack, decodeMsgpack, msgpackCodec } from '../src/shared/msgpack';
+
+function roundTrip(value: unknown): unknown {
+	return decodeMsgpack(encodeMsgpack(value));
+}
+
+function nestedArrays(depth: number): unknown {
+	let value: unknown = 1;
+	for (let i = 0; i < depth; i++) {
+		value = [value];
+	}
+	return value;
+}
+
+describe('MessagePack codec', () => {
+	describe('integers', () => {
+		it.each([
+			[0, 0x00],
+			[127, 0x7f],
+			[128, 0xcc],
+			[255, 0xcc],
+			[256, 0xcd],
+			[65535, 0xcd],
+			[65536, 0xce],
+			[0xffffffff, 0xce],
+			[0x100000000, 0xcf],
+			[Number.MAX_SAFE_INTEGER, 0xcf],
+			[-1, 0xff],
+			[-32, 0xe0],
+			[-33, 0xd0],
+			[-128, 0xd0],
+			[-129, 0xd1],
+			[-32768, 0xd1],
+			[-32769, 0xd2],
+			[-0x80000000, 0xd2],
+			[-0x80000001, 0xd3],
+			[Number.MIN_SAFE_INTEGER, 0xd3]
+		])('round-trips %d', (value, marker) => {
+			const bytes = encodeMsgpack(value);
+			expect(bytes[0]).toBe(marker);
+			expect(decodeMsgpack(bytes)).toBe(value);
+		});
+
+		it('decodes 64-bit integers as numbers', () => {
+			expect(roundTrip(2n ** 40n)).toBe(2 ** 40);
+			expect(roundTrip(-(2n ** 40n))).toBe(-(2 ** 40));
+		});
+	});
+
+	describe('floats', () => {
+		it.each([0.5, -1.5, Math.PI, Number.MAX_VALUE, Number.MIN_VALUE, Number.MAX_SAFE_INTEGER + 1])(
+			'round-trips %d as float64',
+			(value) => {
+				const bytes = encodeMsgpack(value);
+				expect(bytes[0]).toBe(0xcb);
+				expect(bytes.length).toBe(9);
+				expect(decodeMsgpack(bytes)).toBe(value);
+			}
+		);
+
+		it('round-trips NaN and infinities', () => {
+			expect(roundTrip(NaN)).toBeNaN();
+			expect(roundTrip(Infinity)).toBe(Infinity);
+			expect(roundTrip(-Infinity)).toBe(-Infinity);
+		});
+
+		it('decodes float32', () => {
+			expect(decodeMsgpack(new Uint8Array([0xca, 0x3f, 0xc0, 0x00, 0x00]))).toBe(1.5);
+		});
+	});
+
+	describe('strings', () => {
+		it.each([
+			[0, 0xa0],
+			[31, 0xbf],
+			[32, 0xd9],
+			[255, 0xd9],
+			[256, 0xda],
+			[65535, 0xda],
+			[65536, 0xdb]
+		])('round-trips a %d byte string', (length, marker) => {
+			const value = 'x'.repeat(length);
+			const bytes = encodeMsgpack(value);
+			expect(bytes[0]).toBe(marker);
+			expect(decodeMsgpack(bytes)).toBe(value);
+		});
+
+		it('sizes strings in UTF-8 bytes', () => {
+			const value = 'é'.repeat(16);
+			const bytes = encodeMsgpack(value);
+			expect(bytes[0]).toBe(0xd9);
+			expect(bytes[1]).toBe(32);
+			expect(decodeMsgpack(bytes)).toBe(value);
+		});
+
+		it('rejects a length beyond the data', () => {
+			expect(() => decodeMsgpack(new Uint8Array([0xd9, 10, 0x61, 0x62]))).toThrow('Unexpected end of MessagePack data');
+			expect(() => decodeMsgpack(new Uint8Array([0xdb, 0xff, 0xff, 0xff, 0xff, 0x61]))).toThrow(
+				'Unexpected end of MessagePack data'
+			);
+		});
+	});
+
+	describe('binary', () => {
+		it.each([
+			[0, 0xc4],
+			[255, 0xc4],
+			[256, 0xc5],
+			[65535, 0xc5],
+			[65536, 0xc6]
+		])('round-trips %d bytes', (length, marker) => {
+			const value = new Uint8Array(length).map((_, i) => i % 251);
+			const bytes = encodeMsgpack(value);
+			expect(bytes[0]).toBe(marker);
+			expect(decodeMsgpack(bytes)).toEqual(value);
+		});
+
+		it('encodes ArrayBuffer and other typed arrays as bytes', () => {
+			expect(roundTrip(new Uint8Array([1, 2, 3]).buffer)).toEqual(new Uint8Array([1, 2, 3]));
+			expect(roundTrip(new Uint16Array([0x0102]))).toEqual(new Uint8Array(new Uint16Array([0x0102]).buffer));
+		});
+
+		it('rejects a length beyond the data', () => {
+			expect(() => decodeMsgpack(new Uint8Array([0xc5, 0x01, 0x00, 0x01]))).toThrow('Unexpected end of MessagePack data');
+		});
+	});
+
+	describe('containers', () => {
+		it('round-trips arrays and maps of every header size', () => {
+			for (const size of [0, 15, 16, 65536]) {
+				const array = Array.from({ length: size }, (_, i) => i);
+				const map = Object.fromEntries(array.map((i) => [`k${i}`, i]));
+				expect(roundTrip(array)).toEqual(array);
+				expect(roundTrip(map)).toEqual(map);
+			}
+		});
+
+		it('matches JSON for undefined, functions and toJSON', () => {
+			const date = new Date(0);
+			expect(roundTrip({ a: undefined, b: () => 1, c: null, d: date })).toEqual({ c: null, d: date.toJSON() });
+			expect(roundTrip([undefined, () => 1])).toEqual([null, null]);
+		});
+
+		it('accepts values nested up to the depth limit', () => {
+			expect(roundTrip(nestedArrays(100))).toEqual(nestedArrays(100));
+		});
+
+		it('refuses to encode values nested beyond the depth limit', () => {
+			expect(() => encodeMsgpack(nestedArrays(101))).toThrow('Value nested too deeply');
+		});
+
+		it('refuses to decode data nested beyond the depth limit', () => {
+			const bytes = new Uint8Array(102).fill(0x91);
+			bytes[101] = 0x01;
+			expect(() => decodeMsgpack(bytes)).toThrow('MessagePack data nested too deeply');
+			expect(decodeMsgpack(bytes.subarray(1))).toEqual(nestedArrays(100));
+		});
+	});
+
+	describe('malformed data', () => {
+		it('rejects trailing bytes', () => {
+			expect(() => decodeMsgpack(new Uint8Array([0x01, 0x02]))).toThrow('Trailing bytes after MessagePack value');
+		});
+
+		it('rejects empty input', () => {
+			expect(() => decodeMsgpack(new Uint8Array(0))).toThrow('Unexpected end of MessagePack data');
+		});
+
+		it('rejects unsupported types', () => {
+			expect(() => decodeMsgpack(new Uint8Array([0xc1]))).toThrow('Unsupported MessagePack type: 0xc1');
+			expect(() => decodeMsgpack(new Uint8Array([0xd4, 0x01, 0x00]))).toThrow('Unsupported MessagePack type: 0xd4');
+		});
+
+		it('drops __proto__ keys instead of changing the prototype', () => {
+			// { "__proto__": { "polluted": true }, "ok": 1 }
+			const bytes = new Uint8Array([
+				0x82,
+				0xa9, ...new TextEncoder().encode('__proto__'),
+				0x81, 0xa8, ...new TextEncoder().encode('polluted'), 0xc3,
+				0xa2, 0x6f, 0x6b, 0x01
+			]);
+			const decoded = decodeMsgpack(bytes) as Record<string, unknown>;
+			expect(decoded).toEqual({ ok: 1 });
+			expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+			expect(Object.prototype.hasOwnProperty.call(decoded, '__proto__')).toBe(false);
+			expect((decoded as { polluted?: boolean }).polluted).toBeUndefined();
+			expect(({} as { polluted?: boolean }).polluted).toBeUndefined();
+		});
+
+		it('drops __proto__ keys encoded from parsed JSON', () => {
+			const decoded = roundTrip(JSON.parse('{"__proto__":{"polluted":true},"ok":1}')) as Record<string, unknown>;
+			expect(decoded).toEqual({ ok: 1 });
+			expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+		});
+	});
+
+	describe('msgpackCodec', () => {
+		it('round-trips a frame', () => {
+			const frame = { type: 'event', channel: 'default', data: { type: 'chat', bytes: new Uint8Array([1, 2]) } };
+			const encoded = msgpackCodec.encode(frame);
+			expect(encoded).toBeInstanceOf(Uint8Array);
+			expect(msgpackCodec.decode(encoded as Uint8Array)).toEqual(frame);
+		});
+
+		it('rejects text frames', () => {
+			expect(() => msgpackCodec.decode('{}')).toThrow('Expected a binary frame');
+		});
+	});
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { defineRoom } from '../src/actor/router';
+import { onWebSocketMessage } from '../src/actor/runtime/onWebSocketMessage';
+import { clearRateLimitBuckets, pruneRateLimitBuckets } from '../src/actor/runtime/rateLimit';
+import type { RateLimitConfig } from '../src/actor/types';
+import { createTestActor, addSession, rawFrame, type TestActor } from './helpers';
+
+const start = new Date('2026-01-01T00:00:00Z').getTime();
+
+function createRoom(rateLimit: RateLimitConfig) {
+	const handled: unknown[] = [];
+	const room = defineRoom({ websocketPath: '/ws', rateLimit });
+	room.on('chat', (_ctx, data) => {
+		handled.push(data);
+	});
+	return { room, handled };
+}
+
+function storedKeys(actor: TestActor): string[] {
+	return Array.from(actor.storage.data.keys()).filter((key) => key.startsWith('verani:ratelimit:'));
+}
+
+describe('rate limits', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('rejects frames over the limit with a RATE_LIMITED error', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(start);
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const { room, handled } = createRoom({ perConnection: { capacity: 2, refillPerSecond: 1 } });
+
+		for (let i = 0; i < 3; i++) {
+			await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: i }));
+		}
+
+		expect(handled).toEqual([0, 1]);
+		expect(socket.frames('error').map((frame) => frame.data)).toEqual([
+			{ code: 'RATE_LIMITED', message: 'Rate limit exceeded', event: 'chat', retryAfterMs: 1000 }
+		]);
+	});
+
+	it('refills tokens over time', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(start);
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const { room, handled } = createRoom({ perConnection: { capacity: 1, refillPerSecond: 2 } });
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: 'first' }));
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: 'refused' }));
+		vi.setSystemTime(start + 499);
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: 'too early' }));
+		vi.setSystemTime(start + 1000);
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: 'refilled' }));
+
+		expect(handled).toEqual(['first', 'refilled']);
+	});
+
+	it('charges the user bucket across connections', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(start);
+		const actor = createTestActor();
+		const first = addSession(actor, { userId: 'alice' });
+		const second = addSession(actor, { userId: 'alice' });
+		const { room, handled } = createRoom({ perUser: { capacity: 2, refillPerSecond: 1 }, policy: 'drop' });
+
+		await onWebSocketMessage(actor, room, first.ws, rawFrame({ type: 'chat', data: 1 }));
+		await onWebSocketMessage(actor, room, second.ws, rawFrame({ type: 'chat', data: 2 }));
+		await onWebSocketMessage(actor, room, second.ws, rawFrame({ type: 'chat', data: 3 }));
+
+		expect(handled).toEqual([1, 2]);
+		expect(second.socket.sent).toEqual([]);
+	});
+
+	it('does not hand out extra tokens to frames arriving while the bucket loads', async () => {
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const { room, handled } = createRoom({ perConnection: { capacity: 2, refillPerSecond: 0.001 }, policy: 'drop' });
+
+		await Promise.all([1, 2, 3, 4, 5].map((i) => onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: i }))));
+
+		expect(handled).toHaveLength(2);
+	});
+
+	it('keeps draining buckets of a closed connection until an alarm finds them refilled', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(start);
+		const actor = createTestActor();
+		const config: RateLimitConfig = {
+			perConnection: { capacity: 2, refillPerSecond: 1 },
+			perEvent: { chat: { capacity: 1, refillPerSecond: 1 } }
+		};
+		const { ws, meta } = addSession(actor, { clientId: 'client-1' });
+		const { room } = createRoom(config);
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: {} }));
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'chat', data: {} }));
+
+		actor.sessions.delete(ws);
+		clearRateLimitBuckets(actor, config, meta);
+		await vi.waitFor(() => expect(actor.scheduled).toHaveLength(1));
+
+		const [{ at, payload }] = actor.scheduled;
+		expect(payload).toEqual({
+			kind: 'ratelimit',
+			keys: ['verani:ratelimit:conn:client-1', 'verani:ratelimit:event:client-1:chat']
+		});
+		expect(at).toBe(start + 2000);
+		expect(storedKeys(actor)).toHaveLength(2);
+
+		vi.setSystemTime(at);
+		await pruneRateLimitBuckets(actor, payload.kind === 'ratelimit' ? payload.keys : []);
+		expect(storedKeys(actor)).toEqual([]);
+		expect(actor.scheduled).toHaveLength(1);
+	});
+
+	it('only touches the buckets of the closed connection', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(start);
+		const actor = createTestActor();
+		const config: RateLimitConfig = { perConnection: { capacity: 5, refillPerSecond: 1 }, perUser: { capacity: 5, refillPerSecond: 1 } };
+		const { room } = createRoom(config);
+		const closing = addSession(actor, { userId: 'alice', clientId: 'closing' });
+		const staying = addSession(actor, { userId: 'alice', clientId: 'staying' });
+		await onWebSocketMessage(actor, room, closing.ws, rawFrame({ type: 'chat', data: {} }));
+		await onWebSocketMessage(actor, room, staying.ws, rawFrame({ type: 'chat', data: {} }));
+
+		vi.setSystemTime(start + 60_000);
+		actor.sessions.delete(closing.ws);
+		clearRateLimitBuckets(actor, config, closing.meta);
+		await vi.waitFor(() => expect(storedKeys(actor)).not.toContain('verani:ratelimit:conn:closing'));
+
+		expect(storedKeys(actor).sort()).toEqual(['verani:ratelimit:conn:staying', 'verani:ratelimit:user:alice']);
+		expect(actor.scheduled).toEqual([]);
+	});
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createResumeToken, verifyResumeToken, suspendSession, expireSuspendedSession } from '../src/actor/runtime/resume';
+import { defineRoom } from '../src/actor/router';
+import { createTestActor, addSession } from './helpers';
+
+const config = { secret: 'test-secret' };
+const meta = { userId: 'alice', clientId: 'client-1', channels: ['default'] };
+
+// Changes the first signature character, which carries six signature bits
+function tamperSignature(token: string): string {
+	const [payload, signature] = token.split('.');
+	return `${payload}.${signature.startsWith('A') ? 'B' : 'A'}${signature.slice(1)}`;
+}
+
+describe('resume tokens', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('verifies a token it issued', async () => {
+		const token = await createResumeToken(config, meta, 'conn-1');
+		expect(await verifyResumeToken(config, token)).toEqual({ userId: 'alice', clientId: 'client-1', connectionId: 'conn-1' });
+	});
+
+	it('issues a different token for every connection', async () => {
+		const first = await createResumeToken(config, meta, 'conn-1');
+		const second = await createResumeToken(config, meta, 'conn-2');
+		expect(second).not.toBe(first);
+		expect((await verifyResumeToken(config, second))?.connectionId).toBe('conn-2');
+	});
+
+	it('accepts a secret getter', async () => {
+		const token = await createResumeToken({ secret: () => 'test-secret' }, meta, 'conn-1');
+		expect(await verifyResumeToken(config, token)).not.toBeNull();
+	});
+
+	it('rejects a tampered payload', async () => {
+		const token = await createResumeToken(config, meta, 'conn-1');
+		const [, signature] = token.split('.');
+		const forged = btoa(JSON.stringify({ u: 'mallory', c: 'client-1', k: 'conn-1', i: 0, e: Date.now() + 60_000 }))
+			.replace(/\+/g, '-')
+			.replace(/\//g, '_')
+			.replace(/=+$/, '');
+		expect(await verifyResumeToken(config, `${forged}.${signature}`)).toBeNull();
+	});
+
+	it('rejects a tampered signature', async () => {
+		const token = await createResumeToken(config, meta, 'conn-1');
+		expect(await verifyResumeToken(config, tamperSignature(token))).toBeNull();
+	});
+
+	it('rejects a token signed with another secret', async () => {
+		const token = await createResumeToken({ secret: 'other-secret' }, meta, 'conn-1');
+		expect(await verifyResumeToken(config, token)).toBeNull();
+	});
+
+	it('rejects an expired token', async () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+		const token = await createResumeToken({ ...config, tokenTtlMs: 60_000 }, meta, 'conn-1');
+		vi.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+		expect(await verifyResumeToken(config, token)).not.toBeNull();
+		vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+		expect(await verifyResumeToken(config, token)).toBeNull();
+	});
+
+	it('rejects malformed tokens', async () => {
+		expect(await verifyResumeToken(config, '')).toBeNull();
+		expect(await verifyResumeToken(config, 'abc')).toBeNull();
+		expect(await verifyResumeToken(config, 'a.b.c')).toBeNull();
+		expect(await verifyResumeToken(config, '!!!.???')).toBeNull();
+	});
+});
+
+describe('suspended sessions', () => {
+	it('run onDisconnect when the resume window ends, without another grace period', async () => {
+		const actor = createTestActor();
+		const disconnected: string[] = [];
+		const room = defineRoom({
+			websocketPath: '/ws',
+			resume: config,
+			onDisconnect: {
+				graceMs: 5000,
+				handler: (ctx) => {
+					disconnected.push(ctx.meta.clientId);
+				}
+			}
+		});
+		const { ws, meta } = addSession(actor, { clientId: 'client-1' });
+		actor.sessions.delete(ws);
+
+		await suspendSession(actor, config, ws, meta);
+		expect(actor.scheduled.map((entry) => entry.payload)).toEqual([{ kind: 'resume', clientId: 'client-1' }]);
+
+		await expireSuspendedSession(actor, room, 'client-1');
+		expect(disconnected).toEqual(['client-1']);
+		expect(actor.scheduled.map((entry) => entry.payload.kind)).toEqual(['resume']);
+	});
+});
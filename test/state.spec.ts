@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { defineRoom } from '../src/actor/router';
+import { initSharedState, createActorState } from '../src/actor/runtime/state';
+import { createTestActor } from './helpers';
+
+interface Board {
+	shapes: Array<{ id: string; x: number }>;
+}
+
+async function createBoard() {
+	const actor = createTestActor();
+	const room = defineRoom({ websocketPath: '/ws', state: { shapes: [] } });
+	await initSharedState(actor, room.state);
+	return createActorState(actor, room);
+}
+
+describe('shared state', () => {
+	it('does not change when the value from get() is mutated', async () => {
+		const state = await createBoard();
+		state.update<Board>((board) => {
+			board.shapes.push({ id: 'a', x: 0 });
+		});
+
+		state.get<Board>().shapes[0].x = 100;
+		state.get<Board>().shapes.push({ id: 'b', x: 1 });
+
+		expect(state.get()).toEqual({ shapes: [{ id: 'a', x: 0 }] });
+		expect(state.version).toBe(1);
+	});
+
+	it('does not change when the value returned by update() is mutated', async () => {
+		const state = await createBoard();
+		const board = state.update<Board>((draft) => {
+			draft.shapes.push({ id: 'a', x: 0 });
+		});
+
+		board.shapes[0].x = 100;
+
+		expect(state.get()).toEqual({ shapes: [{ id: 'a', x: 0 }] });
+	});
+
+	it('does not change when an object returned from the update function is mutated', async () => {
+		const state = await createBoard();
+		const next: Board = { shapes: [{ id: 'a', x: 0 }] };
+		state.update<Board>(() => next);
+
+		next.shapes[0].x = 100;
+
+		expect(state.get()).toEqual({ shapes: [{ id: 'a', x: 0 }] });
+	});
+
+	it('diffs the next update against the stored state', async () => {
+		const state = await createBoard();
+		state.update<Board>((board) => {
+			board.shapes.push({ id: 'a', x: 0 });
+		});
+		state.get<Board>().shapes[0].x = 100;
+
+		state.update<Board>((board) => {
+			board.shapes[0].x = 100;
+		});
+
+		expect(state.version).toBe(2);
+		expect(state.get()).toEqual({ shapes: [{ id: 'a', x: 100 }] });
+	});
+});
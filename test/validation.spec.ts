@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { defineRoom } from '../src/actor/router';
+import { onWebSocketMessage } from '../src/actor/runtime/onWebSocketMessage';
+import type { StandardSchemaV1 } from '../src/actor/types';
+import { createTestActor, addSession, rawFrame } from './helpers';
+
+// Minimal Standard Schema validator accepting values of one JavaScript type
+function typeSchema(type: string): StandardSchemaV1 {
+	return {
+		'~standard': {
+			version: 1,
+			vendor: 'test',
+			validate: (value) =>
+				typeof value === type && value !== null ? { value } : { issues: [{ message: `Expected ${type}`, path: ['value'] }] }
+		}
+	};
+}
+
+describe('event payload validation', () => {
+	it.each([0, false, '', null])('dispatches the falsy payload %s as sent', async (payload) => {
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const received: unknown[] = [];
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.on('value', (_ctx, data) => {
+			received.push(data);
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'value', data: payload }));
+		expect(received).toEqual([payload]);
+	});
+
+	it('dispatches a missing payload as an empty object', async () => {
+		const actor = createTestActor();
+		const { ws } = addSession(actor);
+		const received: unknown[] = [];
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.on('value', (_ctx, data) => {
+			received.push(data);
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'value' }));
+		expect(received).toEqual([{}]);
+	});
+
+	it.each([
+		['number', 0],
+		['boolean', false],
+		['string', '']
+	])('validates a falsy %s payload as sent', async (type, payload) => {
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const received: unknown[] = [];
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.on('value', { schema: typeSchema(type) }, (_ctx, data) => {
+			received.push(data);
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'value', data: payload }));
+		expect(received).toEqual([payload]);
+		expect(socket.frames('error')).toEqual([]);
+	});
+
+	it('rejects a falsy payload the schema does not accept', async () => {
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({ websocketPath: '/ws' });
+		let called = false;
+		room.on('value', { schema: typeSchema('object') }, () => {
+			called = true;
+		});
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'value', data: null }));
+		expect(called).toBe(false);
+		expect(socket.frames('error').map((frame) => frame.data)).toEqual([
+			{
+				code: 'VALIDATION_FAILED',
+				message: 'Invalid payload for event "value"',
+				event: 'value',
+				issues: [{ message: 'Expected object', path: ['value'] }]
+			}
+		]);
+	});
+
+	it('answers a rejected frame sent with an ack once, with the error', async () => {
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({ websocketPath: '/ws' });
+		room.on('value', { schema: typeSchema('number') }, () => 'handled');
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'value', id: 'req-1', data: 'text' }));
+		expect(socket.sent).toHaveLength(1);
+		expect(socket.sent[0]).toMatchObject({ type: 'error', id: 'req-1', data: { code: 'VALIDATION_FAILED', requestId: 'req-1' } });
+	});
+
+	it('passes the parsed value to handlers', async () => {
+		const actor = createTestActor();
+		const { ws, socket } = addSession(actor);
+		const room = defineRoom({ websocketPath: '/ws' });
+		const trimmed: StandardSchemaV1<unknown, string> = {
+			'~standard': { version: 1, vendor: 'test', validate: (value) => ({ value: String(value).trim() }) }
+		};
+		room.on('value', { schema: trimmed }, (_ctx, data) => data);
+
+		await onWebSocketMessage(actor, room, ws, rawFrame({ type: 'value', id: 'req-1', data: '  hi  ' }));
+		expect(socket.sent).toEqual([{ type: 'ack', id: 'req-1', data: 'hi' }]);
+	});
+});